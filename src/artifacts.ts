@@ -14,15 +14,21 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 
-import { promises as fsProm } from 'fs';
+import fs, { promises as fsProm } from 'fs';
 import path from "path";
 import rimraf from 'rimraf';
 
 import { Logger } from './logger';
 import { spawn } from "./spawn";
 import { Options } from "./desktop_builder";
+import { isDryRun, recordStep } from "./dry_run";
 
 export async function getMatchingFilesInDir(dir: string, exp: RegExp): Promise<string[]> {
+    // In a dry run nothing has been built, so stand in a placeholder for whatever would be there
+    if (isDryRun() && !fs.existsSync(dir)) {
+        return [`<file matching ${exp.toString()}>`];
+    }
+
     const ret: string[] = [];
     for (const f of await fsProm.readdir(dir)) {
         if (exp.test(f)) {
@@ -41,7 +47,7 @@ export async function syncArtifacts(pubDir: string, options: Options, logger: Lo
     if (options.rsyncRoot) {
         await spawn('rsync', [
             '-av', '--delete', '--delay-updates', `${pubDir}/`, options.rsyncRoot + 'packages.riot.im',
-        ]);
+        ], { logger });
     }
 
     if (options.s3Bucket) {
@@ -51,15 +57,50 @@ export async function syncArtifacts(pubDir: string, options: Options, logger: Lo
         if (options.s3EndpointUrl) {
             args.push('--endpoint-url', options.s3EndpointUrl);
         }
-        await spawn('aws', args);
+        await spawn('aws', args, { logger });
     }
 }
 
+/**
+ * Removes a directory, relative to the publish dir, from the S3 bucket. The S3 sync only ever adds
+ * & updates files, so anything removed from the publish dir stays published until this is called.
+ * The rsync deletes anything that isn't in the publish dir by itself.
+ */
+export async function unpublishArtifacts(dir: string, options: Options, logger: Logger): Promise<void> {
+    if (!options.s3Bucket) return;
+
+    const args = [
+        's3', 'rm', `s3://${options.s3Bucket}/${dir}/`, '--recursive', '--region=auto',
+    ];
+    if (options.s3EndpointUrl) {
+        args.push('--endpoint-url', options.s3EndpointUrl);
+    }
+    await spawn('aws', args, { logger });
+}
+
 export function copyAndLog(src: string, dest: string, logger: Logger): Promise<void> {
     logger.info('Copy ' + src + ' -> ' + dest);
+    if (isDryRun()) {
+        recordStep(`Copy ${src} -> ${dest}`);
+        return Promise.resolve();
+    }
     return fsProm.copyFile(src, dest);
 }
 
+export function writeAndLog(file: string, contents: string, logger: Logger): Promise<void> {
+    logger.info('Write ' + file);
+    if (isDryRun()) {
+        recordStep(`Write ${file}`, contents);
+        return Promise.resolve();
+    }
+    return fsProm.writeFile(file, contents);
+}
+
+export async function mkdirp(dir: string): Promise<void> {
+    if (isDryRun()) return;
+    await fsProm.mkdir(dir, { recursive: true });
+}
+
 export async function copyMatchingFile(
     sourceDir: string,
     targetDir: string,
@@ -91,6 +132,10 @@ export async function copyMatchingFiles(
 }
 
 export function rm(path: string): Promise<void> {
+    if (isDryRun()) {
+        recordStep(`Remove ${path}`);
+        return Promise.resolve();
+    }
     return new Promise((resolve, reject) => {
         rimraf(path, (err) => {
             err ? reject(err) : resolve();
@@ -100,6 +145,10 @@ export function rm(path: string): Promise<void> {
 
 export async function updateSymlink(target: string, symlink: string, logger: Logger): Promise<void> {
     logger.info(`Update latest symlink ${symlink} -> ${target}`);
+    if (isDryRun()) {
+        recordStep(`Symlink ${symlink} -> ${target}`);
+        return;
+    }
     try {
         await fsProm.unlink(symlink);
     } catch (e) {
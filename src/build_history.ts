@@ -0,0 +1,109 @@
+/*
+Copyright 2022 New Vector Ltd
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { promises as fsProm } from 'fs';
+import { Target, TargetId } from 'element-desktop/scripts/hak/target';
+
+import { Logger } from './logger';
+import { isDryRun } from "./dry_run";
+
+export interface IBuild {
+    // time & number of the last successful build
+    time: number;
+    number: number;
+    version?: string;
+    // what the last successful build was made from: the element-desktop commit
+    // and the element-web nightly it fetched
+    desktopSha?: string;
+    webVersion?: string;
+    // time of the last failed build, if any
+    failTime?: number;
+    // how many times it's failed on the day of the last failure, and how many days in a
+    // row it's failed for, since the last successful build
+    failuresToday?: number;
+    failedDays?: number;
+    // the last time a build was skipped because nothing had changed
+    skipTime?: number;
+}
+
+// One line of JSON for each nightly build of each target, oldest first
+const HISTORY_FILE = 'desktop_develop_history.jsonl';
+
+export interface IHistoryEntry {
+    target: TargetId;
+    time: number;
+    result: "succeeded" | "failed" | "skipped";
+    version?: string;
+    desktopSha?: string;
+}
+
+function lastBuildFile(target: Target): string {
+    return 'desktop_develop_lastBuilt_' + target.id;
+}
+
+/**
+ * Reads the last build record for a target, without complaining if there isn't one.
+ */
+export async function readLastBuild(target: Target): Promise<IBuild | undefined> {
+    try {
+        return JSON.parse(await fsProm.readFile(lastBuildFile(target), 'utf8'));
+    } catch (e) {
+        return undefined;
+    }
+}
+
+export async function getLastBuild(target: Target, logger: Logger): Promise<IBuild> {
+    try {
+        return JSON.parse(await fsProm.readFile(lastBuildFile(target), 'utf8'));
+    } catch (e) {
+        logger.error(`Unable to read last build time for ${target.id}`, e);
+        return {
+            time: 0,
+            number: 0,
+        };
+    }
+}
+
+export async function putLastBuild(target: Target, build: IBuild, logger: Logger): Promise<void> {
+    if (isDryRun()) return;
+    try {
+        await fsProm.writeFile(lastBuildFile(target), JSON.stringify(build));
+    } catch (e) {
+        logger.error(`Unable to write last build time for ${target.id}`, e);
+    }
+}
+
+export async function appendHistory(entry: IHistoryEntry, logger: Logger): Promise<void> {
+    if (isDryRun()) return;
+    try {
+        await fsProm.appendFile(HISTORY_FILE, JSON.stringify(entry) + "\n");
+    } catch (e) {
+        logger.error(`Unable to write build history for ${entry.target}`, e);
+    }
+}
+
+/**
+ * The most recent builds, newest first.
+ */
+export async function readHistory(limit: number): Promise<IHistoryEntry[]> {
+    let lines: string[];
+    try {
+        lines = (await fsProm.readFile(HISTORY_FILE, 'utf8')).split("\n").filter(line => line);
+    } catch (e) {
+        return []; // nothing built yet
+    }
+    return lines.slice(-limit).reverse().map(line => JSON.parse(line));
+}
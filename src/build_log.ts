@@ -0,0 +1,97 @@
+/*
+Copyright 2022 New Vector Ltd
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import fs, { promises as fsProm } from 'fs';
+import * as path from 'path';
+
+import { isDryRun } from "./dry_run";
+
+export const DEFAULT_LOG_DIR = "logs";
+export const DEFAULT_LOG_RETENTION_DAYS = 30;
+
+/**
+ * The complete log of one build of one target, written to logs/<target>/<version>.log.
+ * Everything logged to the target's logger and all the output of the commands it runs
+ * ends up here, each line prefixed with the time it was written.
+ */
+export default class BuildLog {
+    private stream?: fs.WriteStream;
+    // whether the next write starts a new line, and so needs a timestamp
+    private atLineStart = true;
+
+    private constructor(public readonly path: string) {
+        if (!isDryRun()) {
+            const stream = fs.createWriteStream(path, { flags: 'a' });
+            // A build log we can't write (eg. the disk is full) is no reason to take down the build,
+            // or the builder with it: the rest of the build just goes unlogged here.
+            stream.on('error', (e) => {
+                console.error(`Unable to write build log ${path}: giving up on it`, e);
+                if (this.stream === stream) this.stream = undefined;
+                stream.destroy();
+            });
+            this.stream = stream;
+        }
+    }
+
+    public static async open(targetId: string, version: string, dir = DEFAULT_LOG_DIR): Promise<BuildLog> {
+        const targetDir = path.join(dir, targetId);
+        if (!isDryRun()) await fsProm.mkdir(targetDir, { recursive: true });
+        return new BuildLog(path.resolve(targetDir, `${version}.log`));
+    }
+
+    public write(text: string): void {
+        if (!this.stream) return;
+
+        let out = "";
+        for (const line of text.split(/(?<=\n)/)) {
+            if (this.atLineStart) out += `[${new Date().toISOString()}] `;
+            out += line;
+            this.atLineStart = line.endsWith("\n");
+        }
+        this.stream.write(out);
+    }
+
+    public close(): Promise<void> {
+        const stream = this.stream;
+        this.stream = undefined;
+        if (!stream) return Promise.resolve();
+        return new Promise(resolve => stream.end(resolve));
+    }
+
+    /**
+     * Deletes logs older than the given number of days from every target's log dir.
+     */
+    public static async prune(retentionDays: number, dir = DEFAULT_LOG_DIR): Promise<void> {
+        if (isDryRun()) return;
+
+        const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+        let targetDirs: string[];
+        try {
+            targetDirs = await fsProm.readdir(dir);
+        } catch (e) {
+            return; // no logs yet
+        }
+
+        for (const targetDir of targetDirs) {
+            for (const f of await fsProm.readdir(path.join(dir, targetDir))) {
+                const file = path.join(dir, targetDir, f);
+                if ((await fsProm.stat(file)).mtimeMs < cutoff) {
+                    await fsProm.unlink(file);
+                }
+            }
+        }
+    }
+}
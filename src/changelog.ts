@@ -0,0 +1,131 @@
+/*
+Copyright 2022 New Vector Ltd
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { promises as fsProm } from 'fs';
+import { TargetId } from 'element-desktop/scripts/hak/target';
+
+import { Logger } from "./logger";
+import GitRepo, { ICommit } from "./gitrepo";
+import { IBuild } from "./build_history";
+import { writeAndLog } from "./artifacts";
+
+// Any more than this and the message is just a wall of text: the link to the comparison has the rest
+const MAX_LISTED_COMMITS = 20;
+
+/**
+ * What went into a nightly build of a target since its last successful one.
+ */
+export interface IChangelog {
+    version: string;
+    previousVersion?: string;
+    desktopSha: string;
+    previousDesktopSha?: string;
+    webVersion?: string;
+    previousWebVersion?: string;
+    // element-desktop's commits between the two builds, newest first
+    commits: ICommit[];
+}
+
+export async function getChangelog(
+    repo: GitRepo,
+    lastBuild: IBuild,
+    version: string,
+    webVersion: string | undefined,
+): Promise<IChangelog> {
+    const desktopSha = await repo.getHeadSha();
+    return {
+        version,
+        previousVersion: lastBuild.version,
+        desktopSha,
+        previousDesktopSha: lastBuild.desktopSha,
+        webVersion,
+        previousWebVersion: lastBuild.webVersion,
+        commits: lastBuild.desktopSha ? await repo.getLog(`${lastBuild.desktopSha}..${desktopSha}`) : [],
+    };
+}
+
+// The https URL of a repo on GitHub, to link to its commits
+function getGitHubUrl(gitRepo: string): string | undefined {
+    const match = /github\.com[:/]([^/]+\/[^/]+?)(\.git)?$/.exec(gitRepo);
+    return match ? `https://github.com/${match[1]}` : undefined;
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/**
+ * The changelog as a message for the target's thread, in plain text & HTML.
+ */
+export function formatChangelog(changelog: IChangelog, gitRepo: string): [text: string, html: string] {
+    const url = getGitHubUrl(gitRepo);
+    const short = (sha: string) => sha.slice(0, 8);
+    const commitHtml = (sha: string) => url ? `<a href="${url}/commit/${sha}">${short(sha)}</a>` : short(sha);
+
+    let text: string;
+    let html: string;
+    if (!changelog.previousDesktopSha) {
+        text = `📝 Built from element-desktop ${short(changelog.desktopSha)}, no previous build to compare with`;
+        html = `📝 Built from element-desktop ${commitHtml(changelog.desktopSha)}, no previous build to compare with`;
+    } else if (changelog.commits.length === 0) {
+        text = `📝 No changes to element-desktop since ${changelog.previousVersion}`;
+        html = escapeHtml(text);
+    } else {
+        const range = `${short(changelog.previousDesktopSha)}...${short(changelog.desktopSha)}`;
+        const rangeHtml = url ?
+            `<a href="${url}/compare/${changelog.previousDesktopSha}...${changelog.desktopSha}">${range}</a>` : range;
+        const count = changelog.commits.length === 1 ? "1 commit" : `${changelog.commits.length} commits`;
+        text = `📝 Changes to element-desktop since ${changelog.previousVersion} (${range}), ${count}:`;
+        html = `📝 Changes to element-desktop since ${escapeHtml(changelog.previousVersion ?? "")} (${rangeHtml}), ` +
+            `${count}:<ul>`;
+        for (const commit of changelog.commits.slice(0, MAX_LISTED_COMMITS)) {
+            text += `\n• ${commit.subject} (${commit.author}) ${short(commit.sha)}`;
+            html += `<li>${escapeHtml(commit.subject)} (${escapeHtml(commit.author)}) ${commitHtml(commit.sha)}</li>`;
+        }
+        html += "</ul>";
+        const unlisted = changelog.commits.length - MAX_LISTED_COMMITS;
+        if (unlisted > 0) {
+            text += `\n...and ${unlisted} more`;
+            html += `...and ${unlisted} more`;
+        }
+    }
+
+    if (changelog.webVersion && changelog.webVersion !== changelog.previousWebVersion) {
+        const previous = changelog.previousWebVersion?.slice(0, 8) ?? "?";
+        const web = `element-web ${previous} → ${changelog.webVersion.slice(0, 8)}`;
+        text += `\n${web}`;
+        html += `<br>${escapeHtml(web)}`;
+    }
+    return [text, html];
+}
+
+/**
+ * Updates the changelog file with the given targets' changelogs, keeping the last ones of any
+ * targets that weren't built this time.
+ */
+export async function writeChangelogFile(
+    file: string,
+    changelogs: Partial<Record<TargetId, IChangelog>>,
+    logger: Logger,
+): Promise<void> {
+    let existing: Partial<Record<TargetId, IChangelog>> = {};
+    try {
+        existing = JSON.parse(await fsProm.readFile(file, 'utf8'));
+    } catch (e) {
+        // first one
+    }
+    await writeAndLog(file, JSON.stringify({ ...existing, ...changelogs }, null, 4), logger);
+}
@@ -0,0 +1,73 @@
+/*
+Copyright 2022 New Vector Ltd
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { promises as fsProm } from 'fs';
+import * as path from 'path';
+import { TargetId } from 'element-desktop/scripts/hak/target';
+
+import { isDryRun } from "./dry_run";
+
+/*
+ * A build dir records which of its pipeline's steps have completed, so that a failed build can
+ * be resumed with --resume from the step that failed rather than from a fresh clone.
+ */
+
+const CHECKPOINT_FILE = ".element-builder-checkpoint.json";
+
+export interface ICheckpoint {
+    target: TargetId;
+    version: string;
+    // The names of the pipeline steps which have completed
+    completed: string[];
+}
+
+export async function readCheckpoint(repoDir: string): Promise<ICheckpoint | undefined> {
+    try {
+        return JSON.parse(await fsProm.readFile(path.join(repoDir, CHECKPOINT_FILE), 'utf8'));
+    } catch (e) {
+        return undefined;
+    }
+}
+
+export async function writeCheckpoint(repoDir: string, checkpoint: ICheckpoint): Promise<void> {
+    if (isDryRun()) return;
+    await fsProm.writeFile(path.join(repoDir, CHECKPOINT_FILE), JSON.stringify(checkpoint));
+}
+
+/**
+ * Finds the build dirs left behind by earlier builds of the target, most recent first.
+ */
+export async function findCheckpoints(
+    targetId: TargetId,
+    buildsDir = "builds",
+): Promise<{ repoDir: string, checkpoint: ICheckpoint }[]> {
+    let dirs: string[];
+    try {
+        dirs = await fsProm.readdir(buildsDir);
+    } catch (e) {
+        return [];
+    }
+
+    const found: { repoDir: string, checkpoint: ICheckpoint, mtime: number }[] = [];
+    for (const dir of dirs) {
+        const repoDir = path.join(buildsDir, dir);
+        const checkpoint = await readCheckpoint(repoDir);
+        if (checkpoint?.target !== targetId) continue;
+        const { mtimeMs } = await fsProm.stat(path.join(repoDir, CHECKPOINT_FILE));
+        found.push({ repoDir, checkpoint, mtime: mtimeMs });
+    }
+    return found.sort((a, b) => b.mtime - a.mtime).map(({ repoDir, checkpoint }) => ({ repoDir, checkpoint }));
+}
@@ -0,0 +1,544 @@
+/*
+Copyright 2022 New Vector Ltd
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import * as fs from 'fs';
+import { TargetId, TARGETS } from 'element-desktop/scripts/hak/target';
+
+import { Options, StepName } from "./desktop_builder";
+import { IContainerOptions } from "./docker_runner";
+import { IRemoteHost } from "./ssh_runner";
+import { ICacheOptions } from "./dep_cache";
+import { IMirrorOptions } from "./gitrepo";
+import { IRetryPolicy } from "./retry";
+import { IScheduleConfig, validateSchedules } from "./schedule";
+import NightlyVersioning, { VersionError } from "./versioning";
+import { IFailurePolicy } from "./failure_policy";
+import { IApiOptions, isLoopback } from "./control_api";
+
+export const CONFIG_VERSION = 1;
+export const DEFAULT_CONFIG_FILE = "element-builder.json";
+
+export interface IChannelConfig {
+    dockerImage?: string;
+    fetchArgs?: string[];
+}
+
+export interface IDevelopConfig extends IChannelConfig {
+    // How the nightlies are versioned, see NightlyVersioning
+    versionFormat?: string;
+}
+
+export interface IPreviewConfig extends IChannelConfig {
+    // How long preview builds stay published, in days
+    retentionDays?: number;
+}
+
+export interface IWindowsConfig {
+    vmName: string;
+    username: string;
+    password: string;
+}
+
+export interface IPublishConfig {
+    rsyncRoot?: string;
+    s3Bucket?: string;
+    s3EndpointUrl?: string;
+}
+
+export interface IMatrixConfig {
+    baseUrl: string;
+    roomId: string;
+    accessToken: string;
+}
+
+export interface ILogsConfig {
+    dir?: string;
+    retentionDays?: number;
+}
+
+export interface IConfig {
+    version: number;
+    targets: TargetId[];
+    gitRepo: string;
+    debianVersion?: string;
+    develop: IDevelopConfig;
+    release: IChannelConfig;
+    preview: IPreviewConfig;
+    windows?: IWindowsConfig;
+    publish: IPublishConfig;
+    matrix?: IMatrixConfig;
+    // Per step timeouts in minutes
+    timeouts?: Partial<Record<StepName, number>>;
+    retries?: Partial<Record<StepName | "clone", IRetryPolicy>>;
+    logs?: ILogsConfig;
+    // How the Linux builds are run in a container
+    docker?: IContainerOptions;
+    // How many targets may build at once in each resource group
+    concurrency?: Record<string, number>;
+    // The cache of node_modules & native modules shared between builds
+    cache?: ICacheOptions;
+    // The bare mirror of gitRepo that targets are cloned from
+    gitMirror?: IMirrorOptions;
+    // When the nightlies of each target are built, 8am every day if not set
+    schedules?: IScheduleConfig[];
+    // Same day retries & escalation of failed nightlies
+    failures?: Partial<IFailurePolicy>;
+    // The nightly builder's HTTP control API & webhook
+    api?: IApiOptions;
+    // Hosts to build particular macOS & Linux targets on, by target id
+    remotes?: Partial<Record<TargetId, IRemoteHost>>;
+}
+
+export const DEFAULT_CONFIG: IConfig = {
+    version: CONFIG_VERSION,
+    // The set of targets we build by default, sorted by increasing complexity so
+    // that we fail fast when the native host target fails.
+    targets: [
+        'universal-apple-darwin',
+        'x86_64-unknown-linux-gnu',
+        'x86_64-pc-windows-msvc',
+        'i686-pc-windows-msvc',
+    ],
+    gitRepo: "https://github.com/vector-im/element-desktop.git",
+    develop: {},
+    release: {},
+    preview: {},
+    publish: {},
+};
+
+/**
+ * The command line flags which can override values from the config file & environment.
+ */
+export interface IConfigOverrides {
+    targets?: string[];
+    gitRepo?: string;
+    debianVersion?: string;
+    skipSync?: boolean;
+}
+
+export class ConfigError extends Error {
+    constructor(public readonly file: string | undefined, public readonly errors: string[]) {
+        super(`Invalid config${file ? " in " + file : ""}:\n\t` + errors.join("\n\t"));
+    }
+}
+
+// A tiny schema language: just enough to produce readable errors for a config file written by hand.
+type Schema =
+    | { type: "string" | "number" | "boolean", enum?: readonly string[] }
+    | { type: "array", items: Schema, enum?: readonly string[] }
+    | { type: "object", properties: Record<string, Schema>, required?: string[] }
+    | { type: "record", values: Schema };
+
+const STRING: Schema = { type: "string" };
+const NUMBER: Schema = { type: "number" };
+const STRING_ARRAY: Schema = { type: "array", items: STRING };
+
+const RETRY_SCHEMA: Schema = {
+    type: "object",
+    required: ["attempts", "delay"],
+    properties: {
+        attempts: NUMBER,
+        delay: NUMBER,
+    },
+};
+
+const REMOTE_SCHEMA: Schema = {
+    type: "object",
+    required: ["host"],
+    properties: {
+        host: STRING,
+        user: STRING,
+        port: NUMBER,
+        identityFile: STRING,
+        dir: STRING,
+    },
+};
+
+const CHANNEL_SCHEMA: Schema = {
+    type: "object",
+    properties: {
+        dockerImage: STRING,
+        fetchArgs: STRING_ARRAY,
+    },
+};
+
+const CONFIG_SCHEMA: Schema = {
+    type: "object",
+    required: ["version"],
+    properties: {
+        version: NUMBER,
+        targets: { type: "array", items: STRING, enum: Object.keys(TARGETS) },
+        gitRepo: STRING,
+        debianVersion: STRING,
+        develop: {
+            type: "object",
+            properties: {
+                dockerImage: STRING,
+                fetchArgs: STRING_ARRAY,
+                versionFormat: STRING,
+            },
+        },
+        release: CHANNEL_SCHEMA,
+        preview: {
+            type: "object",
+            properties: {
+                dockerImage: STRING,
+                fetchArgs: STRING_ARRAY,
+                retentionDays: NUMBER,
+            },
+        },
+        windows: {
+            type: "object",
+            required: ["vmName", "username", "password"],
+            properties: {
+                vmName: STRING,
+                username: STRING,
+                password: STRING,
+            },
+        },
+        publish: {
+            type: "object",
+            properties: {
+                rsyncRoot: STRING,
+                s3Bucket: STRING,
+                s3EndpointUrl: STRING,
+            },
+        },
+        matrix: {
+            type: "object",
+            required: ["baseUrl", "roomId", "accessToken"],
+            properties: {
+                baseUrl: STRING,
+                roomId: STRING,
+                accessToken: STRING,
+            },
+        },
+        timeouts: {
+            type: "object",
+            properties: {
+                install: NUMBER,
+                nativeBuild: NUMBER,
+                fetch: NUMBER,
+                package: NUMBER,
+                windowsScript: NUMBER,
+            },
+        },
+        retries: {
+            type: "object",
+            properties: {
+                clone: RETRY_SCHEMA,
+                install: RETRY_SCHEMA,
+                nativeBuild: RETRY_SCHEMA,
+                fetch: RETRY_SCHEMA,
+                package: RETRY_SCHEMA,
+                windowsScript: RETRY_SCHEMA,
+            },
+        },
+        logs: {
+            type: "object",
+            properties: {
+                dir: STRING,
+                retentionDays: NUMBER,
+            },
+        },
+        docker: {
+            type: "object",
+            properties: {
+                engine: { type: "string", enum: ["docker", "podman"] },
+                platform: STRING,
+                cpus: NUMBER,
+                memory: STRING,
+                mounts: STRING_ARRAY,
+            },
+        },
+        concurrency: { type: "record", values: NUMBER },
+        cache: {
+            type: "object",
+            properties: {
+                enabled: { type: "boolean" },
+                dir: STRING,
+                maxSizeGb: NUMBER,
+            },
+        },
+        gitMirror: {
+            type: "object",
+            properties: {
+                enabled: { type: "boolean" },
+                dir: STRING,
+            },
+        },
+        schedules: {
+            type: "array",
+            items: {
+                type: "object",
+                required: ["cron"],
+                properties: {
+                    cron: STRING,
+                    targets: { type: "array", items: STRING, enum: Object.keys(TARGETS) },
+                    timezone: STRING,
+                },
+            },
+        },
+        failures: {
+            type: "object",
+            properties: {
+                retriesPerDay: NUMBER,
+                backoff: NUMBER,
+                coolOff: NUMBER,
+                escalateAfterDays: NUMBER,
+            },
+        },
+        api: {
+            type: "object",
+            required: ["port"],
+            properties: {
+                port: NUMBER,
+                host: STRING,
+                token: STRING,
+                webhookSecret: STRING,
+            },
+        },
+        remotes: {
+            type: "object",
+            properties: Object.fromEntries(
+                Object.values(TARGETS)
+                    .filter(target => target.platform !== "win32")
+                    .map(target => [target.id, REMOTE_SCHEMA]),
+            ),
+        },
+    },
+};
+
+function describe(value: unknown): string {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    return typeof value;
+}
+
+function validate(schema: Schema, value: unknown, path: string, errors: string[]): void {
+    switch (schema.type) {
+        case "array":
+            if (!Array.isArray(value)) {
+                errors.push(`${path}: expected an array, got ${describe(value)}`);
+                return;
+            }
+            value.forEach((item, i) => {
+                validate(schema.items, item, `${path}[${i}]`, errors);
+                if (schema.enum && typeof item === "string" && !schema.enum.includes(item)) {
+                    errors.push(`${path}[${i}]: '${item}' is not one of ${schema.enum.join(", ")}`);
+                }
+            });
+            return;
+        case "object": {
+            if (typeof value !== "object" || value === null || Array.isArray(value)) {
+                errors.push(`${path}: expected an object, got ${describe(value)}`);
+                return;
+            }
+            const obj = value as Record<string, unknown>;
+            for (const key of schema.required ?? []) {
+                if (obj[key] === undefined) {
+                    errors.push(`${path}.${key}: is required`);
+                }
+            }
+            for (const [key, v] of Object.entries(obj)) {
+                const propSchema = schema.properties[key];
+                if (!propSchema) {
+                    errors.push(`${path}.${key}: unknown option`);
+                } else {
+                    validate(propSchema, v, `${path}.${key}`, errors);
+                }
+            }
+            return;
+        }
+        case "record":
+            if (typeof value !== "object" || value === null || Array.isArray(value)) {
+                errors.push(`${path}: expected an object, got ${describe(value)}`);
+                return;
+            }
+            for (const [key, v] of Object.entries(value)) {
+                validate(schema.values, v, `${path}.${key}`, errors);
+            }
+            return;
+        default:
+            if (typeof value !== schema.type) {
+                errors.push(`${path}: expected a ${schema.type}, got ${describe(value)}`);
+            } else if (schema.enum && !schema.enum.includes(value as string)) {
+                errors.push(`${path}: '${value}' is not one of ${schema.enum.join(", ")}`);
+            }
+    }
+}
+
+function readConfigFile(file: string): Partial<IConfig> {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(fs.readFileSync(file, "utf8"));
+    } catch (e) {
+        throw new ConfigError(file, [`unable to parse: ${(e as Error).message}`]);
+    }
+
+    const errors: string[] = [];
+    validate(CONFIG_SCHEMA, raw, "config", errors);
+    if (errors.length) {
+        throw new ConfigError(file, errors);
+    }
+
+    const cfg = raw as Partial<IConfig>;
+    if (cfg.version !== CONFIG_VERSION) {
+        throw new ConfigError(file, [
+            `config.version: unsupported version ${cfg.version}, this builder understands version ${CONFIG_VERSION}`,
+        ]);
+    }
+    return cfg;
+}
+
+// Pulls the legacy RIOTBUILD_* environment variables into the shape of the config file
+function readEnv(env: NodeJS.ProcessEnv): Partial<IConfig> {
+    const cfg: Partial<IConfig> = {};
+
+    if (env.RIOTBUILD_WIN_VMNAME || env.RIOTBUILD_WIN_USERNAME || env.RIOTBUILD_WIN_PASSWORD) {
+        cfg.windows = {
+            vmName: env.RIOTBUILD_WIN_VMNAME!,
+            username: env.RIOTBUILD_WIN_USERNAME!,
+            password: env.RIOTBUILD_WIN_PASSWORD!,
+        };
+    }
+
+    if (env.RIOTBUILD_BASEURL || env.RIOTBUILD_ROOMID || env.RIOTBUILD_ACCESS_TOKEN) {
+        cfg.matrix = {
+            baseUrl: env.RIOTBUILD_BASEURL!,
+            roomId: env.RIOTBUILD_ROOMID!,
+            accessToken: env.RIOTBUILD_ACCESS_TOKEN!,
+        };
+    }
+
+    cfg.publish = {};
+    if (env.RIOTBUILD_RSYNC_ROOT) cfg.publish.rsyncRoot = env.RIOTBUILD_RSYNC_ROOT;
+    if (env.RIOTBUILD_S3_BUCKET) cfg.publish.s3Bucket = env.RIOTBUILD_S3_BUCKET;
+    if (env.RIOTBUILD_S3_ENDPOINT_URL) cfg.publish.s3EndpointUrl = env.RIOTBUILD_S3_ENDPOINT_URL;
+
+    return cfg;
+}
+
+// Later layers win. Sections are merged key by key so e.g. the S3 bucket can come from the
+// environment while the rsync root comes from the config file.
+function merge(...layers: Partial<IConfig>[]): IConfig {
+    const ret = { ...DEFAULT_CONFIG } as IConfig;
+    for (const layer of layers) {
+        for (const [key, value] of Object.entries(layer) as [keyof IConfig, unknown][]) {
+            if (value === undefined) continue;
+            const current = ret[key];
+            if (
+                typeof value === "object" && !Array.isArray(value) &&
+                typeof current === "object" && !Array.isArray(current)
+            ) {
+                const defined = Object.entries(value as object).filter(([, v]) => v !== undefined);
+                (ret as unknown as Record<string, unknown>)[key] = { ...current, ...Object.fromEntries(defined) };
+            } else {
+                (ret as unknown as Record<string, unknown>)[key] = value;
+            }
+        }
+    }
+    return ret;
+}
+
+/**
+ * Loads the builder config. Values are taken from, in increasing order of precedence:
+ *   1. the built-in defaults
+ *   2. the config file (--config, or element-builder.json in the working directory if it exists)
+ *   3. the RIOTBUILD_* environment variables
+ *   4. command line flags
+ * The merged result is validated again so that partial sections (e.g. only some of the
+ * RIOTBUILD_WIN_* variables) are reported rather than failing half way through a build.
+ */
+export function loadConfig(
+    file: string | undefined,
+    overrides: IConfigOverrides,
+    env: NodeJS.ProcessEnv = process.env,
+): IConfig {
+    let fileConfig: Partial<IConfig> = {};
+    if (file !== undefined) {
+        fileConfig = readConfigFile(file);
+    } else if (fs.existsSync(DEFAULT_CONFIG_FILE)) {
+        file = DEFAULT_CONFIG_FILE;
+        fileConfig = readConfigFile(file);
+    }
+
+    const flagConfig: Partial<IConfig> = {
+        targets: overrides.targets as TargetId[] | undefined,
+        gitRepo: overrides.gitRepo,
+        debianVersion: overrides.debianVersion,
+    };
+
+    const config = merge(fileConfig, readEnv(env), flagConfig);
+    if (overrides.skipSync) {
+        config.publish = { ...config.publish, rsyncRoot: undefined, s3Bucket: undefined };
+    }
+
+    const errors: string[] = [];
+    validate(CONFIG_SCHEMA, JSON.parse(JSON.stringify(config)), "config", errors);
+    if (!errors.length && config.schedules) {
+        errors.push(...validateSchedules(config.schedules, "config.schedules"));
+    }
+    if (!errors.length && config.develop.versionFormat) {
+        try {
+            new NightlyVersioning(config.develop.versionFormat);
+        } catch (e) {
+            if (!(e instanceof VersionError)) throw e;
+            errors.push(`config.develop.versionFormat: ${e.message}`);
+        }
+    }
+    if (!errors.length && config.api && !config.api.token && !isLoopback(config.api.host)) {
+        errors.push(`config.api.token: required, as ${config.api.host} isn't a loopback address`);
+    }
+    if (errors.length) {
+        throw new ConfigError(file, errors);
+    }
+
+    return config;
+}
+
+/**
+ * Builds the Options for a DesktopBuilder of the given channel from a loaded config.
+ */
+export function getOptions(config: IConfig, channel: "develop" | "release" | "preview"): Options {
+    return {
+        targets: config.targets.map(target => TARGETS[target]),
+        debianVersion: config.debianVersion,
+        winVmName: config.windows?.vmName,
+        winUsername: config.windows?.username,
+        winPassword: config.windows?.password,
+        rsyncRoot: config.publish.rsyncRoot,
+        s3Bucket: config.publish.s3Bucket,
+        s3EndpointUrl: config.publish.s3EndpointUrl,
+        gitRepo: config.gitRepo,
+        dockerImage: config[channel].dockerImage,
+        fetchArgs: config[channel].fetchArgs,
+        timeouts: config.timeouts,
+        retries: config.retries,
+        logDir: config.logs?.dir,
+        logRetentionDays: config.logs?.retentionDays,
+        container: config.docker,
+        remotes: config.remotes,
+        concurrency: config.concurrency,
+        cache: config.cache,
+        gitMirror: config.gitMirror,
+        previewRetentionDays: config.preview.retentionDays,
+        schedules: config.schedules,
+        versionFormat: config.develop.versionFormat,
+        failurePolicy: config.failures,
+        api: config.api,
+    };
+}
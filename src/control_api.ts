@@ -0,0 +1,237 @@
+/*
+Copyright 2022 New Vector Ltd
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { TargetId } from 'element-desktop/scripts/hak/target';
+
+import { Logger } from "./logger";
+import { IStatus } from "./status";
+import { IHistoryEntry } from "./build_history";
+
+export interface IApiOptions {
+    port: number;
+    // Defaults to localhost only: put it behind a reverse proxy to receive webhooks
+    host?: string;
+    // If set, control requests need an "Authorization: Bearer <token>" header. Required unless
+    // the host is a loopback address.
+    token?: string;
+    // The secret of the GitHub webhook, without which webhooks are refused
+    webhookSecret?: string;
+}
+
+export interface IQueue {
+    building: TargetId[];
+    queued: TargetId[];
+}
+
+/**
+ * What the API controls: the nightly builder.
+ */
+export interface IControllable {
+    // Queues builds of the given targets, or all of them, returning the targets that were queued
+    requestBuild(targets: TargetId[] | undefined, reason: string): TargetId[];
+    // Cancels the build in progress, resolving to whether there was one
+    cancelBuild(): Promise<boolean>;
+    getQueue(): IQueue;
+    getStatus(): Promise<IStatus>;
+    getHistory(limit: number): Promise<IHistoryEntry[]>;
+}
+
+const DEFAULT_HOST = "127.0.0.1";
+
+/**
+ * Whether the API would only be reachable from this machine if it listened on the given host.
+ */
+export function isLoopback(host = DEFAULT_HOST): boolean {
+    return host === "localhost" || host === "::1" || /^127\.\d+\.\d+\.\d+$/.test(host);
+}
+
+const MAX_BODY_SIZE = 1024 * 1024;
+const DEFAULT_HISTORY_LIMIT = 50;
+
+class HttpError extends Error {
+    constructor(public readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+function readBody(req: http.IncomingMessage): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on("data", (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_SIZE) {
+                reject(new HttpError(413, "Request body too large"));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on("end", () => resolve(Buffer.concat(chunks)));
+        req.on("error", reject);
+    });
+}
+
+function parseJson(body: Buffer): Record<string, unknown> {
+    if (body.length === 0) return {};
+    try {
+        const json = JSON.parse(body.toString("utf-8"));
+        if (typeof json !== "object" || json === null || Array.isArray(json)) throw new Error();
+        return json;
+    } catch (e) {
+        throw new HttpError(400, "Expected a JSON object");
+    }
+}
+
+function safeEqual(a: string, b: string): boolean {
+    const aBuf = Buffer.from(a);
+    const bBuf = Buffer.from(b);
+    return aBuf.length === bBuf.length && crypto.timingSafeEqual(aBuf, bBuf);
+}
+
+/**
+ * Whether the X-Hub-Signature-256 header GitHub sent is the HMAC of the body with the webhook's secret.
+ */
+export function verifyWebhookSignature(body: Buffer, signature: string | undefined, secret: string): boolean {
+    if (!signature) return false;
+    const expected = "sha256=" + crypto.createHmac("sha256", secret).update(body).digest("hex");
+    return safeEqual(signature, expected);
+}
+
+/**
+ * A small HTTP API to trigger, cancel & look at the nightly builds of a running builder:
+ *   GET  /status            the same as 'element-builder status --json'
+ *   GET  /history?limit=N   the most recent builds, newest first
+ *   GET  /queue             the targets being built & waiting to be
+ *   POST /builds            build {"targets": [...]}, or every target, as soon as possible
+ *   POST /cancel            cancel the build in progress
+ *   POST /webhook/github    a GitHub push webhook: pushes to the nightly branch trigger a build
+ */
+export default class ControlApi {
+    private server?: http.Server;
+
+    constructor(
+        private readonly options: IApiOptions,
+        private readonly builder: IControllable,
+        private readonly branch: string,
+        private readonly logger: Logger,
+    ) {}
+
+    public start(): Promise<void> {
+        const server = http.createServer((req, res) => {
+            this.handle(req, res);
+        });
+        this.server = server;
+        return new Promise((resolve, reject) => {
+            server.once("error", reject);
+            server.listen(this.options.port, this.options.host ?? DEFAULT_HOST, () => {
+                server.off("error", reject);
+                this.logger.info(`Control API listening on ${this.options.host ?? DEFAULT_HOST}:${this.options.port}`);
+                resolve();
+            });
+        });
+    }
+
+    public stop(): Promise<void> {
+        const server = this.server;
+        this.server = undefined;
+        if (!server) return Promise.resolve();
+        return new Promise(resolve => server.close(() => resolve()));
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        let status = 200;
+        let response: unknown;
+        try {
+            response = await this.route(req);
+        } catch (e) {
+            status = e instanceof HttpError ? e.status : 500;
+            response = { error: e instanceof HttpError ? e.message : "Internal error" };
+            if (!(e instanceof HttpError)) this.logger.error("Control API request failed", e);
+        }
+        res.writeHead(status, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(response, null, 4));
+    }
+
+    private async route(req: http.IncomingMessage): Promise<unknown> {
+        const url = new URL(req.url ?? "/", "http://localhost");
+        const route = `${req.method} ${url.pathname}`;
+
+        // The webhook has its own authentication
+        if (route === "POST /webhook/github") {
+            return this.onWebhook(req, await readBody(req));
+        }
+        this.checkToken(req);
+
+        switch (route) {
+            case "GET /status":
+                return this.builder.getStatus();
+            case "GET /history": {
+                const limit = parseInt(url.searchParams.get("limit") ?? "", 10) || DEFAULT_HISTORY_LIMIT;
+                return this.builder.getHistory(limit);
+            }
+            case "GET /queue":
+                return this.builder.getQueue();
+            case "POST /builds": {
+                const body = parseJson(await readBody(req));
+                if (body.targets !== undefined && (
+                    !Array.isArray(body.targets) || body.targets.some(t => typeof t !== "string")
+                )) {
+                    throw new HttpError(400, "targets should be an array of target ids");
+                }
+                const queued = this.builder.requestBuild(body.targets as TargetId[] | undefined, "the control API");
+                return { queued };
+            }
+            case "POST /cancel":
+                return { cancelled: await this.builder.cancelBuild() };
+            default:
+                throw new HttpError(404, `No such endpoint: ${route}`);
+        }
+    }
+
+    private checkToken(req: http.IncomingMessage): void {
+        if (!this.options.token) return;
+        if (!safeEqual(req.headers.authorization ?? "", `Bearer ${this.options.token}`)) {
+            throw new HttpError(401, "Missing or incorrect access token");
+        }
+    }
+
+    private onWebhook(req: http.IncomingMessage, body: Buffer): unknown {
+        if (!this.options.webhookSecret) {
+            throw new HttpError(404, "Webhooks aren't configured");
+        }
+        let signature = req.headers["x-hub-signature-256"];
+        if (Array.isArray(signature)) signature = signature[0];
+        if (!verifyWebhookSignature(body, signature, this.options.webhookSecret)) {
+            // Not to the room: anyone who can reach us can send these, as many as they like
+            console.warn(`Refused a webhook with a missing or bad signature from ${req.socket.remoteAddress}`);
+            throw new HttpError(401, "Bad signature");
+        }
+
+        const event = req.headers["x-github-event"];
+        if (event === "ping") return { ok: true };
+        if (event !== "push") return { ignored: `${event} event` };
+
+        const payload = parseJson(body);
+        if (payload.ref !== `refs/heads/${this.branch}`) {
+            return { ignored: `push to ${payload.ref}` };
+        }
+        const after = typeof payload.after === "string" ? payload.after.slice(0, 8) : "?";
+        return { queued: this.builder.requestBuild(undefined, `a push to ${this.branch} (${after})`) };
+    }
+}
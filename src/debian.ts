@@ -60,6 +60,7 @@ export async function addDeb(debDir: string, deb: string, logger: Logger): Promi
             'includedeb', target, deb,
         ], {
             cwd: debDir,
+            logger,
         });
     }
 }
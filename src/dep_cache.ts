@@ -0,0 +1,197 @@
+/*
+Copyright 2022 New Vector Ltd
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import * as crypto from 'crypto';
+import { promises as fsProm } from 'fs';
+import * as path from 'path';
+import { Target } from 'element-desktop/scripts/hak/target';
+
+import { Logger } from "./logger";
+import { isDryRun, recordStep } from "./dry_run";
+
+export const DEFAULT_CACHE_DIR = "cache";
+export const DEFAULT_CACHE_MAX_SIZE_GB = 20;
+
+export interface ICacheOptions {
+    enabled?: boolean;
+    dir?: string;
+    // Least recently used entries are evicted to keep the cache under this size
+    maxSizeGb?: number;
+}
+
+// The dirs in a build which are cached, and what decides whether a cached copy can be used
+export type CachedDir = "node_modules" | ".hak";
+export const CACHED_DIRS: CachedDir[] = ["node_modules", ".hak"];
+
+interface IEntryMeta {
+    size: number;
+    created: number;
+}
+
+export interface ICacheResult {
+    hits: CachedDir[];
+    misses: CachedDir[];
+}
+
+async function dirSize(dir: string): Promise<number> {
+    let size = 0;
+    for (const entry of await fsProm.readdir(dir, { withFileTypes: true })) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            size += await dirSize(entryPath);
+        } else {
+            size += (await fsProm.lstat(entryPath)).size;
+        }
+    }
+    return size;
+}
+
+async function exists(file: string): Promise<boolean> {
+    try {
+        await fsProm.lstat(file);
+        return true;
+    } catch (e) {
+        return false;
+    }
+}
+
+function formatSize(bytes: number): string {
+    return `${(bytes / 1024 / 1024 / 1024).toFixed(1)}GB`;
+}
+
+/**
+ * A cache of node_modules & the native modules hak builds (.hak), shared between builds. Entries are
+ * keyed on the target and the element-desktop yarn.lock, or the hak dependencies & electron version.
+ * They're copied into the build dir before the build, and so reach every runner the same way the
+ * rest of the build dir does.
+ */
+export default class DependencyCache {
+    private readonly dir: string;
+    private readonly maxSize: number;
+
+    constructor(options: ICacheOptions = {}) {
+        this.dir = options.dir ?? DEFAULT_CACHE_DIR;
+        this.maxSize = (options.maxSizeGb ?? DEFAULT_CACHE_MAX_SIZE_GB) * 1024 * 1024 * 1024;
+    }
+
+    private async getKey(repoDir: string, target: Target, cachedDir: CachedDir): Promise<string> {
+        const hash = crypto.createHash("sha256");
+        hash.update(target.id + "\0");
+        if (cachedDir === "node_modules") {
+            hash.update(await fsProm.readFile(path.join(repoDir, "yarn.lock")));
+        } else {
+            const pkg = JSON.parse(await fsProm.readFile(path.join(repoDir, "package.json"), "utf8"));
+            hash.update(JSON.stringify([pkg.hakDependencies, pkg.devDependencies?.electron]));
+        }
+        return hash.digest("hex").slice(0, 16);
+    }
+
+    private entryDir(cachedDir: CachedDir, key: string): string {
+        return path.join(this.dir, cachedDir.replace(/^\./, ""), key);
+    }
+
+    /**
+     * Copies whatever is cached for the build into its build dir. Anything already there, eg. in a
+     * resumed build, is left alone.
+     */
+    public async restore(repoDir: string, target: Target, logger: Logger): Promise<ICacheResult> {
+        const result: ICacheResult = { hits: [], misses: [] };
+        for (const cachedDir of CACHED_DIRS) {
+            const dest = path.join(repoDir, cachedDir);
+            if (await exists(dest)) continue;
+
+            const entry = this.entryDir(cachedDir, await this.getKey(repoDir, target, cachedDir));
+            if (!await exists(entry + ".json")) {
+                result.misses.push(cachedDir);
+                continue;
+            }
+
+            result.hits.push(cachedDir);
+            if (isDryRun()) {
+                recordStep(`Copy ${entry} to ${dest}`);
+                continue;
+            }
+            // The metadata's mtime is when the entry was last used: updated first, so that
+            // it isn't the one evicted by another build while we're copying it
+            const now = new Date();
+            await fsProm.utimes(entry + ".json", now, now);
+            await fsProm.cp(entry, dest, { recursive: true, verbatimSymlinks: true });
+        }
+
+        const stats = [...result.hits.map(d => `${d} hit`), ...result.misses.map(d => `${d} miss`)];
+        logger.info("📦 Dependency cache: " + (stats.join(", ") || "nothing to restore"));
+        return result;
+    }
+
+    /**
+     * Adds the given dirs of a successful build to the cache, then evicts entries to keep it under size.
+     */
+    public async save(repoDir: string, target: Target, cachedDirs: CachedDir[], logger: Logger): Promise<void> {
+        for (const cachedDir of cachedDirs) {
+            const src = path.join(repoDir, cachedDir);
+            const entry = this.entryDir(cachedDir, await this.getKey(repoDir, target, cachedDir));
+            if (!await exists(src) || await exists(entry + ".json")) continue;
+
+            if (isDryRun()) {
+                recordStep(`Copy ${src} to ${entry}`);
+                continue;
+            }
+
+            // Copied under another name first, so a concurrent build never sees half an entry
+            const tmpEntry = `${entry}.tmp-${process.pid}`;
+            await fsProm.rm(tmpEntry, { recursive: true, force: true });
+            await fsProm.cp(src, tmpEntry, { recursive: true, verbatimSymlinks: true });
+            await fsProm.rm(entry, { recursive: true, force: true });
+            await fsProm.rename(tmpEntry, entry);
+            const meta: IEntryMeta = { size: await dirSize(entry), created: Date.now() };
+            await fsProm.writeFile(entry + ".json", JSON.stringify(meta));
+            logger.info(`📦 Cached ${cachedDir} (${formatSize(meta.size)})`);
+        }
+
+        await this.evict(logger);
+    }
+
+    private async evict(logger: Logger): Promise<void> {
+        if (isDryRun()) return;
+
+        const entries: { entry: string, size: number, lastUsed: number }[] = [];
+        for (const cachedDir of CACHED_DIRS) {
+            const kindDir = path.dirname(this.entryDir(cachedDir, "x"));
+            let files: string[];
+            try {
+                files = await fsProm.readdir(kindDir);
+            } catch (e) {
+                continue;
+            }
+            for (const f of files.filter(f => f.endsWith(".json"))) {
+                const metaFile = path.join(kindDir, f);
+                const meta: IEntryMeta = JSON.parse(await fsProm.readFile(metaFile, "utf8"));
+                const { mtimeMs } = await fsProm.stat(metaFile);
+                entries.push({ entry: metaFile.slice(0, -".json".length), size: meta.size, lastUsed: mtimeMs });
+            }
+        }
+
+        let total = entries.reduce((sum, e) => sum + e.size, 0);
+        for (const { entry, size } of entries.sort((a, b) => a.lastUsed - b.lastUsed)) {
+            if (total <= this.maxSize) break;
+            logger.info(`📦 Evicting ${entry} from the dependency cache (${formatSize(size)})`);
+            // The metadata goes first, so the entry stops being used before it's half deleted
+            await fsProm.rm(entry + ".json", { force: true });
+            await fsProm.rm(entry, { recursive: true, force: true });
+            total -= size;
+        }
+    }
+}
@@ -14,18 +14,34 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 
-import { promises as fsProm } from 'fs';
+import fs, { promises as fsProm } from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import * as readline from "readline";
-import { Target, UniversalTarget, WindowsTarget } from "element-desktop/scripts/hak/target";
+import { Target, TargetId, WindowsTarget } from "element-desktop/scripts/hak/target";
 
 import rootLogger, { Logger } from "./logger";
-import Runner, { IRunner } from "./runner";
-import DockerRunner from "./docker_runner";
+import Runner, { IRunner, IRunOptions } from "./runner";
+import DockerRunner, { IContainerOptions } from "./docker_runner";
+import SshRunner, { describeRemote, IRemoteHost, sshArgs } from "./ssh_runner";
 import WindowsBuilder from "./windows_builder";
 import getSecret from "./get_secret";
-import { syncArtifacts, rm } from "./artifacts";
-import GitRepo from "./gitrepo";
+import { syncArtifacts, rm, writeAndLog, mkdirp } from "./artifacts";
+import GitRepo, { DEFAULT_MIRROR_DIR, IMirrorOptions } from "./gitrepo";
+import { notifyReady } from "./supervisor";
+import Lock, { LockMode } from "./lock";
+import RecordingRunner, { isDryRun, recordStep } from "./dry_run";
+import { execOutput, IPreflightCheck, pathCheck, PreflightError, runChecks, toolCheck } from "./doctor";
+import { IRetryPolicy, withRetries } from "./retry";
+import BuildLog, { DEFAULT_LOG_DIR, DEFAULT_LOG_RETENTION_DAYS } from "./build_log";
+import { registerSecret } from "./redact";
+import Pipeline, { IStepContext, PipelineRun } from "./pipeline";
+import Scheduler from "./scheduler";
+import DependencyCache, { CachedDir, ICacheOptions } from "./dep_cache";
+import { IScheduleConfig } from "./schedule";
+import { IFailurePolicy } from "./failure_policy";
+import { IApiOptions } from "./control_api";
+import { findCheckpoints, ICheckpoint, readCheckpoint, writeCheckpoint } from "./checkpoint";
 
 export const ELECTRON_BUILDER_CFG_FILE = 'electron-builder.json';
 const SQUIRREL_MAC_RELEASE_JSON = "releases.json";
@@ -83,16 +99,65 @@ export interface Package {
     productName: string;
 }
 
+// The steps of a build which can be given their own timeout
+export type StepName = "install" | "nativeBuild" | "fetch" | "package" | "windowsScript";
+
+// In minutes. Generous: these are to stop a hung build blocking the builder forever, not to enforce speed.
+export const DEFAULT_STEP_TIMEOUTS: Record<StepName, number> = {
+    install: 30,
+    nativeBuild: 60,
+    fetch: 15,
+    package: 60,
+    windowsScript: 4 * 60,
+};
+
+// Only the steps that mostly fail because of the network are retried by default
+export const DEFAULT_RETRY_POLICIES: Record<StepName | "clone", IRetryPolicy> = {
+    clone: { attempts: 3, delay: 30 },
+    install: { attempts: 3, delay: 60 },
+    nativeBuild: { attempts: 1, delay: 0 },
+    fetch: { attempts: 3, delay: 60 },
+    package: { attempts: 1, delay: 0 },
+    windowsScript: { attempts: 1, delay: 0 },
+};
+
 export interface Options {
     targets: Target[];
     debianVersion?: string;
-    winVmName: string;
-    winUsername: string;
-    winPassword: string;
+    // Only needed when building Windows targets
+    winVmName?: string;
+    winUsername?: string;
+    winPassword?: string;
     rsyncRoot?: string;
     s3Bucket?: string;
     s3EndpointUrl?: string;
     gitRepo: string;
+    // Overrides for the channel's defaults in BuildConfig
+    dockerImage?: string;
+    fetchArgs?: string[];
+    // Per step timeouts in minutes
+    timeouts?: Partial<Record<StepName, number>>;
+    retries?: Partial<Record<StepName | "clone", IRetryPolicy>>;
+    logDir?: string;
+    logRetentionDays?: number;
+    // How to run the Linux builds' containers
+    container?: IContainerOptions;
+    // macOS & Linux targets to build on other hosts rather than this one
+    remotes?: Partial<Record<TargetId, IRemoteHost>>;
+    // A target whose last, failed, build to carry on with rather than start again
+    resume?: TargetId;
+    // How many targets may build at once in each resource group, see getResourceGroups()
+    concurrency?: Record<string, number>;
+    cache?: ICacheOptions;
+    gitMirror?: IMirrorOptions;
+    previewRetentionDays?: number;
+    schedules?: IScheduleConfig[];
+    // How the nightlies are versioned, see NightlyVersioning
+    versionFormat?: string;
+    // What the nightly builder does when a target fails, see IFailurePolicy
+    failurePolicy?: Partial<IFailurePolicy>;
+    // The nightly builder's HTTP control API, off if not set
+    api?: IApiOptions;
 }
 
 export interface BuildConfig {
@@ -107,17 +172,34 @@ export default abstract class DesktopBuilder {
     protected readonly debDir = path.join(process.cwd(), 'debian');
     protected signingKeyContainer?: string;
     protected building = false;
+    // Set once we've been asked to shut down: no new builds should be started
+    protected stopping = false;
+    private readonly windowsBuilders = new Set<WindowsBuilder>();
+    // Aborted to kill whatever command is running when we're asked to stop immediately, or to cancel the build
+    private abortController = new AbortController();
     protected readonly fetchArgs: string[];
     protected readonly dockerImage: string;
     protected readonly gitBranch: string;
+    public abstract readonly mode: LockMode;
+    // Cleared once the build has been resumed, so later builds of the target start afresh
+    protected resumeTarget?: TargetId;
+    protected readonly depCache?: DependencyCache;
+    // The element-desktop commit each target is being built from
+    protected readonly checkedOutShas = new Map<TargetId, string>();
+    // Whether the git mirror is up to date for this run, and so can be cloned from
+    private gitMirrorReady = false;
 
     protected constructor(
         protected readonly options: Options,
         buildConfig: BuildConfig,
     ) {
-        this.dockerImage = buildConfig.dockerImage ?? "element-desktop-dockerbuild";
-        this.fetchArgs = buildConfig.fetchArgs;
+        this.dockerImage = options.dockerImage ?? buildConfig.dockerImage ?? "element-desktop-dockerbuild";
+        this.fetchArgs = options.fetchArgs ?? buildConfig.fetchArgs;
         this.gitBranch = buildConfig.branch ?? "develop";
+        this.resumeTarget = options.resume;
+        if (options.cache?.enabled !== false) {
+            this.depCache = new DependencyCache(options.cache);
+        }
     }
 
     protected printInfo(): void {
@@ -147,23 +229,194 @@ export default abstract class DesktopBuilder {
 
     protected abstract startBuild(): Promise<void>;
 
-    public async start(): Promise<void> {
+    protected get hasWindowsTargets(): boolean {
+        return this.options.targets.some(target => target.platform === "win32");
+    }
+
+    /**
+     * The checks that the host has everything needed to build & publish the selected targets.
+     */
+    protected getPreflightChecks(): IPreflightCheck[] {
+        // Targets built on a remote host need their tools there, not here
+        const localTargets = this.options.targets.filter(target => !this.options.remotes?.[target.id]);
+        const platforms = new Set(localTargets.map(target => target.platform));
+        const checks = [toolCheck("git")];
+
+        if (platforms.has("darwin")) {
+            checks.push(toolCheck("node"), toolCheck("yarn"));
+        }
+
+        if (this.options.targets.some(target => target.platform === "linux")) {
+            checks.push(
+                toolCheck("reprepro"),
+                pathCheck("debian repo", [path.join(this.debDir, "conf", "distributions")]),
+            );
+        }
+
+        if (platforms.has("linux")) {
+            const engine = this.options.container?.engine ?? "docker";
+            checks.push(toolCheck(engine), {
+                name: `${engine} daemon`,
+                run: () => execOutput(engine, [
+                    "info", "--format", engine === "podman" ? "{{.Version.Version}}" : "{{.ServerVersion}}",
+                ]),
+            });
+        }
+
+        const remotes = new Map<string, IRemoteHost>();
+        for (const target of this.options.targets) {
+            const remote = this.options.remotes?.[target.id];
+            if (remote) remotes.set(describeRemote(remote), remote);
+        }
+        if (remotes.size) {
+            checks.push(toolCheck("ssh", ["-V"]), toolCheck("rsync"));
+        }
+        for (const [name, remote] of remotes) {
+            checks.push({
+                name: `build host ${name}`,
+                run: () => execOutput("ssh", [...sshArgs(remote), "uname -sm"]),
+            });
+        }
+
+        if (platforms.has("win32")) {
+            checks.push({
+                name: "windows credentials",
+                run: async () => {
+                    if (!this.options.winVmName || !this.options.winUsername || !this.options.winPassword) {
+                        throw new Error("windows.vmName, windows.username and windows.password must be configured");
+                    }
+                    return `${this.options.winUsername}@${this.options.winVmName}`;
+                },
+            });
+            checks.push(toolCheck("VBoxManage", ["--version"]), {
+                name: "windows VM",
+                run: async () => {
+                    const info = await execOutput(
+                        "VBoxManage", ["showvminfo", this.options.winVmName!, "--machinereadable"],
+                    );
+                    const snapshot = /^CurrentSnapshotName="(.*)"$/m.exec(info);
+                    if (!snapshot) {
+                        throw new Error(`VM ${this.options.winVmName} has no current snapshot to restore`);
+                    }
+                    return `${this.options.winVmName}, current snapshot '${snapshot[1]}'`;
+                },
+            });
+            checks.push({
+                name: "signing key container",
+                run: async () => {
+                    // Without -w this doesn't print the secret itself, just that it exists
+                    await execOutput("security", ["find-generic-password", "-s", "riot_key_container"]);
+                    return "found in keychain";
+                },
+            });
+            if (process.env.UHUBCTL_DONGLE_POWER_LOCATION) {
+                checks.push(toolCheck("uhubctl", ["-v"]));
+            }
+        }
+
+        if (this.options.rsyncRoot) {
+            checks.push(toolCheck("rsync"), {
+                name: "rsync destination",
+                run: async () => {
+                    await execOutput("rsync", ["--list-only", this.options.rsyncRoot!]);
+                    return this.options.rsyncRoot!;
+                },
+            });
+        }
+
+        if (this.options.s3Bucket) {
+            checks.push(toolCheck("aws"), {
+                name: "S3 bucket",
+                run: async () => {
+                    const args = ["s3api", "head-bucket", "--bucket", this.options.s3Bucket!];
+                    if (this.options.s3EndpointUrl) {
+                        args.push("--endpoint-url", this.options.s3EndpointUrl);
+                    }
+                    await execOutput("aws", args);
+                    return `s3://${this.options.s3Bucket}`;
+                },
+            });
+        }
+
+        return checks;
+    }
+
+    public doctor(logger: Logger): Promise<boolean> {
+        return runChecks(this.getPreflightChecks(), logger);
+    }
+
+    /**
+     * Runs the preflight checks and, once they've passed, tells the supervisor we're up. Throws a
+     * PreflightError if any of them fail, so that we don't carry on as if all was well.
+     */
+    protected async preflight(logger: Logger): Promise<void> {
+        // Nothing has been run in a dry run, so there's no point checking for the tools to run it with
+        if (!isDryRun() && !await this.doctor(logger)) {
+            throw new PreflightError("Preflight checks failed: not building anything");
+        }
+        await notifyReady();
+    }
+
+    public async start(interactive = true): Promise<void> {
         console.log("");
         await this.printInfo();
         console.log("");
 
-        const rl = readline.createInterface({
-            input: process.stdin,
-            output: process.stdout,
-        });
+        if (interactive) {
+            const rl = readline.createInterface({
+                input: process.stdin,
+                output: process.stdout,
+            });
 
-        await new Promise(resolve => rl.question("Press any key to continue...", resolve));
-        rl.close();
+            await new Promise(resolve => rl.question("Press any key to continue...", resolve));
+            rl.close();
+        }
 
         await this.startBuild();
     }
 
+    /**
+     * Stop building. If abort is false, waits for the build in progress (if any) to finish, otherwise
+     * powers off any running Windows VMs so the build in progress fails straight away.
+     */
+    public async stop(abort: boolean): Promise<void> {
+        this.stopping = true;
+
+        if (abort) {
+            await this.abortBuild();
+            return;
+        }
+
+        while (this.building) {
+            await new Promise(resolve => setTimeout(resolve, 1000));
+        }
+    }
+
+    /**
+     * Kills whatever the build in progress is running and powers off any running Windows VMs, so
+     * the build fails straight away. No more targets are started until resetAbort() is called.
+     */
+    protected async abortBuild(): Promise<void> {
+        this.abortController.abort();
+        await Promise.all([...this.windowsBuilders].map(builder => builder.stop()));
+    }
+
+    // Lets builds run again after the last one was cancelled, unless we're shutting down
+    protected resetAbort(): void {
+        if (this.abortController.signal.aborted && !this.stopping) {
+            this.abortController = new AbortController();
+        }
+    }
+
     protected async loadSigningKeyContainer() {
+        // Only the windows builds get signed by us
+        if (!this.hasWindowsTargets) return;
+
+        if (isDryRun()) {
+            this.signingKeyContainer = "<signing key container>";
+            return;
+        }
+
         // get the token passphrase now so
         //   a) we fail early if it's not in the keychain
         //   b) we know the keychain is unlocked because someone's sitting at the computer to start the builder.
@@ -171,6 +424,66 @@ export default abstract class DesktopBuilder {
         // where it can parse it out of the name of the key container, so this
         // is actually the key container in the format [{{passphrase}}]=container
         this.signingKeyContainer = await getSecret('riot_key_container');
+        registerSecret(this.signingKeyContainer);
+        registerSecret(/^\[\{\{(.*)\}\}\]=/.exec(this.signingKeyContainer)?.[1]);
+    }
+
+    protected stepOptions(step: StepName): IRunOptions {
+        const mins = this.options.timeouts?.[step] ?? DEFAULT_STEP_TIMEOUTS[step];
+        return {
+            timeout: mins * 60 * 1000,
+            signal: this.abortController.signal,
+        };
+    }
+
+    protected retryPolicy(step: StepName | "clone"): IRetryPolicy {
+        return this.options.retries?.[step] ?? DEFAULT_RETRY_POLICIES[step];
+    }
+
+    /**
+     * Runs one step of the build with the runner, applying the step's timeout & retry policy.
+     */
+    protected runStep(runner: IRunner, step: StepName, logger: Logger, cmd: string, ...args: string[]): Promise<void> {
+        return withRetries(
+            [cmd, ...args].join(" "),
+            this.retryPolicy(step),
+            logger,
+            () => runner.run(cmd, args, this.stepOptions(step)),
+        );
+    }
+
+    /**
+     * The steps of a build: channels add their own steps to these or replace them.
+     */
+    protected getPipeline(): Pipeline {
+        return Pipeline.DEFAULT;
+    }
+
+    protected getStepContext(target: Target, repoDir: string, saveDirs: CachedDir[] = []): IStepContext {
+        return {
+            target,
+            gitBranch: this.gitBranch,
+            fetchArgs: this.fetchArgs,
+            buildDirName: path.basename(repoDir),
+            gitSha: this.checkedOutShas.get(target.id),
+            saveDirs,
+        };
+    }
+
+    protected openBuildLog(target: Target, version: string): Promise<BuildLog> {
+        return BuildLog.open(target.id, version, this.options.logDir ?? DEFAULT_LOG_DIR);
+    }
+
+    protected async closeBuildLog(buildLog: BuildLog): Promise<void> {
+        await buildLog.close();
+        try {
+            await BuildLog.prune(
+                this.options.logRetentionDays ?? DEFAULT_LOG_RETENTION_DAYS,
+                this.options.logDir ?? DEFAULT_LOG_DIR,
+            );
+        } catch (e) {
+            rootLogger.warn("Failed to prune old build logs", e);
+        }
     }
 
     protected getBuildEnv(): NodeJS.ProcessEnv {
@@ -178,25 +491,97 @@ export default abstract class DesktopBuilder {
     }
 
     protected makeMacRunner(cwd: string, logger: Logger): IRunner {
+        if (isDryRun()) return new RecordingRunner(cwd, "local");
         return new Runner(cwd, logger, this.getBuildEnv());
     }
 
     protected makeLinuxRunner(cwd: string, logger: Logger): IRunner {
-        const wrapper = path.join('scripts', 'in-docker.sh');
-        return new DockerRunner(cwd, wrapper, this.dockerImage, logger, this.getBuildEnv());
+        if (isDryRun()) return new RecordingRunner(cwd, `docker image ${this.dockerImage}`);
+        return new DockerRunner(cwd, this.dockerImage, logger, this.getBuildEnv(), this.options.container);
+    }
+
+    protected makeRemoteRunner(cwd: string, remote: IRemoteHost, logger: Logger, resuming: boolean): IRunner {
+        if (isDryRun()) return new RecordingRunner(cwd, `ssh ${describeRemote(remote)}`);
+        return new SshRunner(cwd, remote, logger, this.getBuildEnv(), resuming);
     }
 
     protected makeWindowsBuilder(repoDir: string, target: WindowsTarget, logger: Logger): WindowsBuilder {
-        return new WindowsBuilder(
+        const builder = new WindowsBuilder(
             repoDir,
             target,
-            this.options.winVmName,
-            this.options.winUsername,
-            this.options.winPassword,
+            this.options.winVmName!,
+            this.options.winUsername!,
+            this.options.winPassword!,
             this.signingKeyContainer!,
             logger,
             this.getBuildEnv(),
         );
+        this.windowsBuilders.add(builder);
+        return builder;
+    }
+
+    protected async stopWindowsBuilder(builder: WindowsBuilder): Promise<void> {
+        try {
+            await builder.stop();
+        } finally {
+            this.windowsBuilders.delete(builder);
+        }
+    }
+
+    private async readCheckpoint(target: Target, repoDir: string, buildVersion: string): Promise<ICheckpoint> {
+        return await readCheckpoint(repoDir) ?? { target: target.id, version: buildVersion, completed: [] };
+    }
+
+    /**
+     * Runs the target's pipeline in a Windows VM, as one batch script. The VM is restored from its
+     * snapshot each time, so there's nothing to resume part way through: either the whole build had
+     * completed, or it's done again.
+     */
+    protected async buildInWindows(
+        target: WindowsTarget,
+        repoDir: string,
+        buildVersion: string,
+        logger: Logger,
+    ): Promise<void> {
+        const run = new PipelineRun(this.getPipeline().stepsFor(target));
+        const checkpoint = await this.readCheckpoint(target, repoDir, buildVersion);
+        if (run.steps.every(step => checkpoint.completed.includes(step.name))) {
+            logger.info("Windows build already completed");
+            return;
+        }
+
+        const cached = await this.depCache?.restore(repoDir, target, logger);
+        const ctx = this.getStepContext(target, repoDir, cached?.misses);
+
+        const builder = this.makeWindowsBuilder(repoDir, target, logger);
+        for (const step of run.steps) {
+            builder.appendScript(...PipelineRun.windowsMarker(step.name));
+            for (const [cmd, ...args] of step.commands(ctx)) {
+                // yarn is itself a batch file, so needs to be call-ed for the script to carry on after it
+                builder.appendScript(...(cmd === "yarn" ? ["call", cmd, ...args] : [cmd, ...args]));
+            }
+        }
+
+        logger.info("Starting Windows builder for " + target.id + '...');
+        await builder.start();
+        logger.info("...builder started");
+
+        try {
+            logger.info("Starting build...");
+            await builder.runScript({ ...this.stepOptions("windowsScript"), onOutput: run.onWindowsOutput });
+            run.end("succeeded");
+            logger.info("Build complete!");
+        } catch (e) {
+            run.end("failed");
+            throw e;
+        } finally {
+            run.report(logger);
+            await this.stopWindowsBuilder(builder);
+        }
+
+        checkpoint.completed = run.steps.map(step => step.name);
+        await writeCheckpoint(repoDir, checkpoint);
+        if (cached) await this.depCache!.save(repoDir, target, cached.misses, logger);
     }
 
     protected getElectronBuilderConfig(
@@ -230,14 +615,22 @@ export default abstract class DesktopBuilder {
             cfg.extraMetadata!.productName = cfg.extraMetadata!.productName!.replace(/ /g, "-");
         }
 
-        await fsProm.writeFile(
-            path.join(repoDir, ELECTRON_BUILDER_CFG_FILE),
-            JSON.stringify(cfg, null, 4),
-        );
+        const cfgFile = path.join(repoDir, ELECTRON_BUILDER_CFG_FILE);
+        const contents = JSON.stringify(cfg, null, 4);
+        if (isDryRun()) {
+            recordStep(`Write electron-builder config ${cfgFile}`, contents);
+            return;
+        }
+        await fsProm.writeFile(cfgFile, contents);
     }
 
-    protected async writeDarwinReleaseFile(updatePath: string, version: string, url: string): Promise<void> {
-        await fsProm.writeFile(
+    protected async writeDarwinReleaseFile(
+        updatePath: string,
+        version: string,
+        url: string,
+        logger: Logger,
+    ): Promise<void> {
+        await writeAndLog(
             path.join(updatePath, SQUIRREL_MAC_RELEASE_JSON),
             JSON.stringify({
                 currentRelease: version,
@@ -249,10 +642,12 @@ export default abstract class DesktopBuilder {
                     },
                 }],
             }, null, 4),
+            logger,
         );
-        await fsProm.writeFile(
+        await writeAndLog(
             path.join(updatePath, SQUIRREL_MAC_LEGACY_JSON),
             JSON.stringify({ url }, null, 4),
+            logger,
         );
     }
 
@@ -262,41 +657,49 @@ export default abstract class DesktopBuilder {
         buildVersion: string,
         logger: Logger,
     ): Promise<void> {
+        const checkpoint = await this.readCheckpoint(target, repoDir, buildVersion);
         let runner: IRunner;
-        switch (target.platform) {
-            case 'darwin':
-                runner = this.makeMacRunner(repoDir, logger);
-                break;
-            case 'linux':
-                runner = this.makeLinuxRunner(repoDir, logger);
-                break;
-            default:
-                throw new Error(`Unexpected local target ${target.id}`);
+        const remote = this.options.remotes?.[target.id];
+        if (remote) {
+            runner = this.makeRemoteRunner(repoDir, remote, logger, checkpoint.completed.length > 0);
+        } else {
+            switch (target.platform) {
+                case 'darwin':
+                    runner = this.makeMacRunner(repoDir, logger);
+                    break;
+                case 'linux':
+                    runner = this.makeLinuxRunner(repoDir, logger);
+                    break;
+                default:
+                    throw new Error(`Unexpected local target ${target.id}`);
+            }
         }
 
+        // Remote hosts build with their own copy of the build dir, which the cache can't see
+        const cached = remote ? undefined : await this.depCache?.restore(repoDir, target, logger);
         await runner.setup();
 
-        await runner.run('yarn', 'install');
-        if (target.arch == 'universal') {
-            const subtargets = (target as UniversalTarget).subtargets;
-            for (const subTarget of subtargets) {
-                await runner.run('yarn', 'run', 'hak', 'check', '--target', subTarget.id);
+        const ctx = this.getStepContext(target, repoDir);
+        const run = new PipelineRun(this.getPipeline().stepsFor(target));
+        try {
+            for (const step of run.steps) {
+                if (checkpoint.completed.includes(step.name)) {
+                    run.skip(step.name);
+                    continue;
+                }
+                await run.runStep(step.name, async () => {
+                    for (const [cmd, ...args] of step.commands(ctx)) {
+                        await this.runStep(runner, step.kind, logger, cmd, ...args);
+                    }
+                });
+                checkpoint.completed.push(step.name);
+                await writeCheckpoint(repoDir, checkpoint);
             }
-            for (const subTarget of subtargets) {
-                await runner.run('yarn', 'run', 'build:native', '--target', subTarget.id);
-            }
-            const targetArgs = [];
-            for (const st of subtargets) {
-                targetArgs.push('--target');
-                targetArgs.push(st.id);
-            }
-            await runner.run('yarn', 'run', 'hak', 'copy', ...targetArgs);
-        } else {
-            await runner.run('yarn', 'run', 'hak', 'check', '--target', target.id);
-            await runner.run('yarn', 'run', 'build:native', '--target', target.id);
+        } finally {
+            run.report(logger);
         }
-        await runner.run('yarn', 'run', 'fetch', ...this.fetchArgs);
-        await runner.run('yarn', 'build', `--${target.arch}`, '--config', ELECTRON_BUILDER_CFG_FILE);
+        await runner.finish();
+        if (cached) await this.depCache!.save(repoDir, target, cached.misses, logger);
 
         logger.info("Build completed!");
     }
@@ -306,7 +709,7 @@ export default abstract class DesktopBuilder {
         repoDir: string;
         repo: GitRepo;
     }> {
-        await fsProm.mkdir('builds', { recursive: true });
+        await mkdirp('builds');
 
         let buildDirName = `element-desktop-${target.id}-${buildVersion}`;
         if (target.platform === "win32") {
@@ -317,17 +720,151 @@ export default abstract class DesktopBuilder {
             buildDirName = `ed${target.arch}${buildVersion}`;
         }
 
+        if (isDryRun()) {
+            return this.cloneRepoForPlan(target, buildDirName, logger);
+        }
+
         const repoDir = path.join('builds', buildDirName);
-        await rm(repoDir);
+
+        if (this.resumeTarget === target.id) {
+            this.resumeTarget = undefined;
+            const checkpoint = await readCheckpoint(repoDir);
+            if (checkpoint) {
+                const completed = checkpoint.completed.length ? checkpoint.completed.join(", ") : "none";
+                logger.info(`Resuming the build in ${repoDir}, completed steps: ${completed}`);
+                const repo = new GitRepo(repoDir);
+                this.checkedOutShas.set(target.id, await repo.getHeadSha());
+                return { repo, repoDir, buildDirName };
+            }
+            logger.warn(`No build of ${target.id} to resume in ${repoDir}: starting again`);
+        }
+
+        // Failed builds are only kept around to be resumed, which they can't be once we start another
+        for (const old of await findCheckpoints(target.id)) {
+            if (old.repoDir === repoDir) continue;
+            logger.info("Removing old build dir " + old.repoDir);
+            await rm(old.repoDir);
+        }
+
         logger.info("Cloning element-desktop into " + repoDir);
 
         const repo = new GitRepo(repoDir);
-        await repo.clone(this.options.gitRepo, repoDir, "-b", this.gitBranch);
-        logger.info(`...checked out '${this.gitBranch}' branch, starting build for ${target.id}`);
+        const cloneArgs = [this.options.gitRepo, repoDir, "-b", this.gitBranch];
+        if (this.gitMirrorReady) {
+            // Dissociated, so that the checkout still works where the mirror isn't: in containers,
+            // on remote hosts & when the Windows VM clones from it
+            cloneArgs.push("--reference-if-able", path.resolve(this.gitMirrorDir), "--dissociate");
+        }
+        await withRetries(`git clone ${this.options.gitRepo}`, this.retryPolicy("clone"), logger, async () => {
+            await rm(repoDir);
+            await repo.clone(...cloneArgs);
+        });
+        const sha = await repo.getHeadSha();
+        this.checkedOutShas.set(target.id, sha);
+        logger.info(`...checked out '${this.gitBranch}' at ${sha}, starting build for ${target.id}`);
+        await writeCheckpoint(repoDir, { target: target.id, version: buildVersion, completed: [] });
 
         return { repo, repoDir, buildDirName };
     }
 
+    private get gitMirrorDir(): string {
+        return this.options.gitMirror?.dir ?? DEFAULT_MIRROR_DIR;
+    }
+
+    /**
+     * Brings the local mirror of element-desktop up to date, once per run, so that each target's clone
+     * only has to fetch what's changed. If that fails, targets are cloned in full as before.
+     */
+    protected async updateGitMirror(logger: Logger): Promise<void> {
+        this.gitMirrorReady = false;
+        if (this.options.gitMirror?.enabled === false) return;
+
+        if (isDryRun()) {
+            recordStep(`Update git mirror ${this.gitMirrorDir} of ${this.options.gitRepo}`);
+            return;
+        }
+
+        try {
+            await withRetries("git mirror update", this.retryPolicy("clone"), logger, () => (
+                new GitRepo(this.gitMirrorDir).mirror(this.options.gitRepo)
+            ));
+            this.gitMirrorReady = true;
+        } catch (e) {
+            logger.warn(`Unable to update the git mirror in ${this.gitMirrorDir}: cloning from scratch`, e);
+        }
+    }
+
+    // The rest of the plan needs element-desktop's package.json, so make a throwaway shallow
+    // clone outside of the builds dir. It gets removed when we exit.
+    private async cloneRepoForPlan(target: Target, buildDirName: string, logger: Logger): Promise<{
+        buildDirName: string;
+        repoDir: string;
+        repo: GitRepo;
+    }> {
+        recordStep(`git clone ${this.options.gitRepo} ${path.join('builds', buildDirName)} -b ${this.gitBranch}`);
+
+        const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'element-builder-plan-'));
+        process.on("exit", () => {
+            fs.rmSync(tmpDir, { recursive: true, force: true });
+        });
+
+        const repoDir = path.join(tmpDir, buildDirName);
+        logger.info("Dry run: shallow cloning element-desktop into " + repoDir);
+        const repo = new GitRepo(repoDir);
+        await repo.clone(this.options.gitRepo, repoDir, "-b", this.gitBranch, "--depth", "1");
+        logger.info(`...checked out '${this.gitBranch}' branch, planning build for ${target.id}`);
+
+        return { repo, repoDir, buildDirName };
+    }
+
+    /**
+     * The resource groups a build of the target uses, which limit how many targets build at once:
+     * "windows" for the Windows VM, "local" for builds on this host & "remote:<host>" for each build host.
+     */
+    protected getResourceGroups(target: Target): string[] {
+        if (target.platform === "win32") return ["windows"];
+        const remote = this.options.remotes?.[target.id];
+        if (remote) return [`remote:${remote.host}`];
+        return ["local"];
+    }
+
+    /**
+     * Builds the targets, as many at once as their resource groups allow. Once one fails, or we're asked
+     * to stop, no more are started. Returns whether every target was built.
+     */
+    protected async buildTargets(targets: Target[], build: (target: Target) => Promise<boolean>): Promise<boolean> {
+        // One at a time in a dry run, so the plan reads in order
+        const scheduler = new Scheduler(isDryRun() ? {} : this.options.concurrency);
+        const groupsOf = (target: Target) => isDryRun() ? ["plan"] : this.getResourceGroups(target);
+
+        let stopLogged = false;
+        return scheduler.runAll(targets, groupsOf, build, () => {
+            const stop = this.stopping || this.abortController.signal.aborted;
+            if (stop && !stopLogged) {
+                const why = this.stopping ? "Shutting down" : "Build cancelled";
+                rootLogger.info(`${why}: not building remaining targets`);
+                stopLogged = true;
+            }
+            return stop;
+        });
+    }
+
+    /**
+     * The checkpoint of the build of the target we've been asked to resume, if there is one.
+     */
+    protected async getResumePoint(target: Target): Promise<ICheckpoint | undefined> {
+        if (this.resumeTarget !== target.id) return undefined;
+        return (await findCheckpoints(target.id))[0]?.checkpoint;
+    }
+
+    // Build dirs are kept until their packages have been published, so a failure can be resumed
+    protected async removeBuildDirs(buildDirs: string[], logger: Logger): Promise<void> {
+        for (const dir of buildDirs) {
+            logger.info("Removing build dir " + dir);
+            await rm(dir);
+        }
+    }
+
     protected async pushArtifacts(targets: Target[]): Promise<void> {
         if (this.options.rsyncRoot || this.options.s3Bucket) {
             rootLogger.info(`Built packages for: ${targets.map(t => t.id).join(', ')} : pushing packages...`);
@@ -339,8 +876,16 @@ export default abstract class DesktopBuilder {
         }
     }
 
-    public async syncArtifacts(logger: Logger): Promise<void> {
-        await syncArtifacts(this.pubDir, this.options, logger);
+    public async syncArtifacts(logger: Logger, mode: LockMode = this.mode): Promise<void> {
+        // Only one process may publish at a time, but there's no reason to fail if another one
+        // is part way through: wait for it to finish then sync whatever is there.
+        const lock = new Lock("publish", mode);
+        if (!isDryRun()) await lock.waitFor(logger);
+        try {
+            await syncArtifacts(this.pubDir, this.options, logger);
+        } finally {
+            lock.release();
+        }
     }
 }
 
@@ -14,72 +14,78 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 
-import { promises as fsProm } from 'fs';
+import * as https from 'https';
 import * as path from 'path';
 import { Target, TargetId, WindowsTarget } from 'element-desktop/scripts/hak/target';
 
 import rootLogger, { LoggableError, Logger } from './logger';
 import WindowsBuilder from './windows_builder';
 import { setDebVersion, addDeb } from './debian';
-import { getMatchingFilesInDir, copyMatchingFiles, copyMatchingFile, rm } from './artifacts';
-import DesktopBuilder, { ELECTRON_BUILDER_CFG_FILE, Options, Package, PackageBuild } from "./desktop_builder";
+import { getMatchingFilesInDir, copyMatchingFiles, copyMatchingFile, rm, mkdirp, writeAndLog } from './artifacts';
+import DesktopBuilder, { Options, Package, PackageBuild } from "./desktop_builder";
+import {
+    appendHistory,
+    getLastBuild,
+    IBuild,
+    IHistoryEntry,
+    putLastBuild,
+    readHistory,
+} from "./build_history";
+import Schedule from "./schedule";
+import {
+    DEFAULT_FAILURE_POLICY,
+    getNextDue,
+    IFailurePolicy,
+    recordFailure,
+    recordSuccess,
+} from "./failure_policy";
+import { isDryRun, recordStep } from "./dry_run";
+import GitRepo from "./gitrepo";
+import { formatChangelog, getChangelog, IChangelog, writeChangelogFile } from "./changelog";
+import NightlyVersioning, { getLegacyVersion, INightlyVersion } from "./versioning";
+import ControlApi, { IControllable, IQueue } from "./control_api";
+import { getStatus, IStatus } from "./status";
 
 const KEEP_BUILDS_NUM = 14; // we keep two week's worth of nightly builds
 
-// take a date object and advance it to 9am the next morning
-function getNextBuildTime(d: Date): Date {
-    const next = new Date(d.getTime());
-    next.setHours(8);
-    next.setMinutes(0);
-    next.setSeconds(0);
-    next.setMilliseconds(0);
-
-    if (next.getTime() < d.getTime()) {
-        next.setDate(next.getDate() + 1);
-    }
-
-    return next;
-}
-
-interface IBuild {
-    time: number;
-    number: number;
-}
-
-async function getLastBuild(target: Target, logger: Logger): Promise<IBuild> {
-    try {
-        return JSON.parse(await fsProm.readFile('desktop_develop_lastBuilt_' + target.id, 'utf8'));
-    } catch (e) {
-        logger.error(`Unable to read last build time for ${target.id}`, e);
-        return {
-            time: 0,
-            number: 0,
-        };
-    }
+interface ISourceVersions {
+    desktopSha?: string;
+    webVersion?: string;
 }
 
-async function putLastBuild(target: Target, build: IBuild, logger: Logger): Promise<void> {
-    try {
-        await fsProm.writeFile('desktop_develop_lastBuilt_' + target.id, JSON.stringify(build));
-    } catch (e) {
-        logger.error(`Unable to write last build time for ${target.id}`, e);
-    }
-}
-
-function getBuildVersion(lastBuild: IBuild): [version: string, number: number] {
-    // YYYYMMDDNN where NN is in case we need to do multiple versions in a day
-    // NB. on windows, squirrel will try to parse the versiopn number parts,
-    // including this string, into 32 bit integers, which is fine as long
-    // as we only add two digits to the end...
-    const now = new Date();
-    const month = (now.getMonth() + 1).toString().padStart(2, '0');
-    const date = now.getDate().toString().padStart(2, '0');
-    let buildNum = 1;
-    if (new Date(lastBuild.time).getDate().toString().padStart(2, '0') === date) {
-        buildNum = lastBuild.number + 1;
-    }
-
-    return [now.getFullYear() + month + date + buildNum.toString().padStart(2, '0'), buildNum];
+/**
+ * The version of element-web that 'yarn run fetch' with the given args will fetch: for develop, the
+ * commit of the latest passing element-web build on Buildkite, which is where the nightly comes from.
+ */
+function getWebVersion(fetchArgs: string[]): Promise<string> {
+    if (fetchArgs[0] !== "develop") return Promise.resolve(fetchArgs.join(" "));
+
+    const url = "https://api.buildkite.com/v2/organizations/matrix-dot-org/pipelines/element-web/builds" +
+        "?branch=develop&state=passed&per_page=1";
+    return new Promise((resolve, reject) => {
+        const req = https.get(url, {
+            headers: {
+                Authorization: "Bearer " + process.env.BUILDKITE_API_KEY,
+            },
+        }, (res) => {
+            const chunks: Uint8Array[] = [];
+            res.on("data", chunk => {
+                chunks.push(chunk);
+            });
+            res.on("end", () => {
+                try {
+                    const builds = JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+                    if (res.statusCode !== 200 || !builds[0]?.commit) {
+                        throw new Error(`Unexpected response from Buildkite: ${res.statusCode}`);
+                    }
+                    resolve(builds[0].commit);
+                } catch (e) {
+                    reject(e);
+                }
+            });
+        });
+        req.on("error", reject);
+    });
 }
 
 async function pruneBuilds(dir: string, exp: RegExp, logger: Logger): Promise<void> {
@@ -90,14 +96,20 @@ async function pruneBuilds(dir: string, exp: RegExp, logger: Logger): Promise<vo
         logger.info("Pruning old builds: " + toDelete.join(', '));
     }
     for (const f of toDelete) {
-        await fsProm.unlink(path.join(dir, f));
+        await rm(path.join(dir, f));
     }
 }
 
-export default class DesktopDevelopBuilder extends DesktopBuilder {
+export default class DesktopDevelopBuilder extends DesktopBuilder implements IControllable {
+    public readonly mode = "nightly";
     private appPubDir = path.join(this.pubDir, 'nightly');
     private lastBuildTimes: Partial<Record<TargetId, IBuild>> = {};
-    private lastFailTimes: Partial<Record<TargetId, number>> = {};
+    private pollTimer?: NodeJS.Timeout;
+    private readonly versioning: NightlyVersioning;
+    // Targets asked to be built, over the control API, as soon as the build in progress is done
+    private readonly requested = new Set<TargetId>();
+    private buildingTargets: TargetId[] = [];
+    private api?: ControlApi;
 
     constructor(
         options: Options,
@@ -107,6 +119,7 @@ export default class DesktopDevelopBuilder extends DesktopBuilder {
             fetchArgs: ["develop", "-d", "element.io/nightly"],
             dockerImage: "element-desktop-dockerbuild-develop",
         });
+        this.versioning = new NightlyVersioning(options.versionFormat);
     }
 
     protected printInfo(): void {
@@ -123,79 +136,314 @@ export default class DesktopDevelopBuilder extends DesktopBuilder {
         const logger = rootLogger.threadLogger();
         this.building = false;
 
+        await this.preflight(logger);
+
         await WindowsBuilder.setDonglePower(false);
         await this.loadSigningKeyContainer();
 
         this.lastBuildTimes = {};
-        this.lastFailTimes = {};
         for (const target of this.options.targets) {
             this.lastBuildTimes[target.id] = await getLastBuild(target, logger);
-            this.lastFailTimes[target.id] = 0;
         }
 
-        setInterval(this.poll, 30 * 1000);
+        if (isDryRun()) {
+            // Plan a single run of every target rather than polling forever
+            this.force = true;
+            await this.poll();
+            return;
+        }
+
+        if (this.options.api) {
+            const api = new ControlApi(this.options.api, this, this.gitBranch, rootLogger);
+            try {
+                await api.start();
+                this.api = api;
+            } catch (e) {
+                logger.error("Unable to start the control API, carrying on without it", e);
+            }
+        }
+
+        this.pollTimer = setInterval(this.poll, 30 * 1000);
         await this.poll();
     }
 
+    public async stop(abort: boolean): Promise<void> {
+        if (this.pollTimer) clearInterval(this.pollTimer);
+        await this.api?.stop();
+        await super.stop(abort);
+    }
+
+    public requestBuild(targets: TargetId[] | undefined, reason: string): TargetId[] {
+        const known = this.options.targets.map(target => target.id);
+        const queued = (targets ?? known).filter(id => known.includes(id));
+        if (queued.length === 0) return [];
+
+        for (const id of queued) this.requested.add(id);
+        rootLogger.info(`Build of ${queued.join(", ")} requested by ${reason}`);
+        // Rather than waiting for the next poll, in case nothing is building
+        this.poll();
+        return queued;
+    }
+
+    public async cancelBuild(): Promise<boolean> {
+        if (!this.building) return false;
+        rootLogger.info("Cancelling the build in progress...");
+        await this.abortBuild();
+        return true;
+    }
+
+    public getQueue(): IQueue {
+        return { building: this.buildingTargets, queued: [...this.requested] };
+    }
+
+    public getStatus(): Promise<IStatus> {
+        return getStatus(this.options.targets, this.options.schedules, this.options.failurePolicy);
+    }
+
+    public getHistory(limit: number): Promise<IHistoryEntry[]> {
+        return readHistory(limit);
+    }
+
     private poll = async (): Promise<void> => {
-        if (this.building) return;
+        if (this.building || this.stopping) return;
 
-        const toBuild: Target[] = [];
+        // Targets to build whether they're due or not
+        const forced = new Set(this.force ? this.options.targets.map(target => target.id) : this.requested);
+        this.force = false; // clear force flag
+        this.requested.clear();
+
+        let toBuild: Target[] = [];
         for (const target of this.options.targets) {
-            const nextBuildDue = getNextBuildTime(new Date(Math.max(
-                this.lastBuildTimes[target.id]!.time,
-                this.lastFailTimes[target.id]!,
-            )));
+            const nextBuildDue = getNextDue(
+                this.lastBuildTimes[target.id]!,
+                Schedule.forTarget(target, this.options.schedules),
+                this.failurePolicy,
+            );
             //logger.debug("Next build due at " + nextBuildDue);
-            if (this.force || (nextBuildDue.getTime() < Date.now())) {
+            if (forced.has(target.id) || target.id === this.resumeTarget ||
+                (nextBuildDue && nextBuildDue.getTime() < Date.now())) {
                 toBuild.push(target);
             }
         }
-        this.force = false; // clear force flag
 
         if (toBuild.length === 0) return;
 
+        const buildDirs: string[] = [];
+        const changelogs: Partial<Record<TargetId, IChangelog>> = {};
         try {
+            // Set before anything else is awaited, so the next poll doesn't start another build
             this.building = true;
+            this.resetAbort();
+            this.buildingTargets = toBuild.map(target => target.id);
 
-            for (const target of toBuild) {
+            const sources = await this.getSourceVersions();
+            toBuild = await this.skipUnchanged(toBuild, sources, forced);
+            this.buildingTargets = toBuild.map(target => target.id);
+            if (toBuild.length === 0) return;
+
+            await this.updateGitMirror(rootLogger);
+
+            const built = await this.buildTargets(toBuild, async target => {
                 rootLogger.info("Starting build of " + target.id);
+                // Before anything else is sent to the room, so that each target's thread is its own
                 const jobReactionLogger = rootLogger.reactionLogger();
-                const logger = rootLogger.threadLogger();
+                const threadLogger = rootLogger.threadLogger();
+                let thisBuildVersion: string;
+                let buildNumber: number;
                 try {
-                    const [thisBuildVersion, buildNumber] = getBuildVersion(this.lastBuildTimes[target.id]!);
-                    await this.build(target, thisBuildVersion, logger);
+                    ({ version: thisBuildVersion, number: buildNumber } = await this.getResumeVersion(target) ??
+                        this.versioning.next(this.getLastVersion(target)));
+                } catch (e) {
+                    threadLogger.error(`Unable to give the build a version`, e);
+                    jobReactionLogger.info("🚨 Failed!");
+                    await this.recordFailure(target, threadLogger);
+                    return false;
+                }
+                const buildLog = await this.openBuildLog(target, thisBuildVersion);
+                const logger = threadLogger.withBuildLog(buildLog);
+                try {
+                    const repoDir = await this.build(target, thisBuildVersion, logger);
+                    buildDirs.push(repoDir);
+                    changelogs[target.id] = await this.logChangelog(
+                        target, repoDir, thisBuildVersion, sources.webVersion, logger,
+                    );
                     this.lastBuildTimes[target.id]!.time = Date.now();
                     this.lastBuildTimes[target.id]!.number = buildNumber;
+                    this.lastBuildTimes[target.id]!.version = thisBuildVersion;
+                    this.lastBuildTimes[target.id]!.desktopSha = this.checkedOutShas.get(target.id);
+                    this.lastBuildTimes[target.id]!.webVersion = sources.webVersion;
+                    recordSuccess(this.lastBuildTimes[target.id]!);
                     await putLastBuild(target, this.lastBuildTimes[target.id]!, logger);
+                    await appendHistory({
+                        target: target.id,
+                        time: Date.now(),
+                        result: "succeeded",
+                        version: thisBuildVersion,
+                        desktopSha: this.checkedOutShas.get(target.id),
+                    }, logger);
                     jobReactionLogger.info("✅ Done!");
+                    return true;
                 } catch (e) {
-                    logger.error("Build failed!", e);
+                    logger.error(`Build failed! Full log in ${buildLog.path}`, e);
                     jobReactionLogger.info("🚨 Failed!");
-                    this.lastFailTimes[target.id] = Date.now();
+                    await this.recordFailure(target, logger);
 
                     if (e instanceof LoggableError) {
                         logger.file(e.log);
                     }
-
-                    // if one fails, bail out of the whole process: probably better
-                    // to have all platforms not updating than just one
-                    return;
+                    return false;
+                } finally {
+                    await this.closeBuildLog(buildLog);
                 }
-            }
+            });
+            // if one fails, don't publish any: probably better
+            // to have all platforms not updating than just one
+            if (!built) return;
 
+            await mkdirp(this.appPubDir);
+            await writeChangelogFile(path.join(this.appPubDir, 'changelog.json'), changelogs, rootLogger);
             await this.pushArtifacts(toBuild);
+            await this.removeBuildDirs(buildDirs, rootLogger);
         } catch (e) {
             rootLogger.error("Artifact sync failed!", e);
             // Mark all types as failed if artifact sync fails
             for (const target of toBuild) {
-                this.lastFailTimes[target.id] = Date.now();
+                await this.recordFailure(target, rootLogger);
             }
         } finally {
             this.building = false;
+            this.buildingTargets = [];
         }
     };
 
+    /**
+     * The version of the target's last successful build. Builds recorded before versions were
+     * only have the time & counter, so the version they would have had is worked out from those.
+     */
+    private getLastVersion(target: Target): string | undefined {
+        const lastBuild = this.lastBuildTimes[target.id]!;
+        return lastBuild.version ?? getLegacyVersion(lastBuild.time, lastBuild.number);
+    }
+
+    private get failurePolicy(): IFailurePolicy {
+        return { ...DEFAULT_FAILURE_POLICY, ...this.options.failurePolicy };
+    }
+
+    /**
+     * Records that the target failed, says when it'll be tried again, and escalates to the room
+     * if it's been failing for too many days in a row.
+     */
+    private async recordFailure(target: Target, logger: Logger): Promise<void> {
+        const lastBuild = this.lastBuildTimes[target.id]!;
+        const escalate = recordFailure(lastBuild, this.failurePolicy);
+        await putLastBuild(target, lastBuild, logger);
+        await appendHistory({
+            target: target.id,
+            time: lastBuild.failTime!,
+            result: "failed",
+            desktopSha: this.checkedOutShas.get(target.id),
+        }, logger);
+
+        const nextDue = getNextDue(lastBuild, Schedule.forTarget(target, this.options.schedules), this.failurePolicy);
+        const retries = lastBuild.failuresToday! <= this.failurePolicy.retriesPerDay ?
+            `retry ${lastBuild.failuresToday} of ${this.failurePolicy.retriesPerDay} today` : "no more retries today";
+        logger.info(`Next attempt at ${nextDue?.toISOString() ?? "never"} (${retries})`);
+
+        if (escalate) {
+            const since = lastBuild.version ? `: the last good one was ${lastBuild.version}` : "";
+            rootLogger.error(
+                `🚨 ${target.id} nightlies have failed ${lastBuild.failedDays} days in a row${since}. ` +
+                "This needs looking at.",
+            );
+        }
+    }
+
+    private async getSourceVersions(): Promise<ISourceVersions> {
+        const sources: ISourceVersions = {};
+        try {
+            sources.desktopSha = await GitRepo.resolveRemote(this.options.gitRepo, this.gitBranch);
+        } catch (e) {
+            rootLogger.warn(`Unable to find the latest commit on ${this.gitBranch}`, e);
+        }
+        try {
+            sources.webVersion = await getWebVersion(this.fetchArgs);
+        } catch (e) {
+            rootLogger.warn("Unable to find the latest element-web nightly", e);
+        }
+        return sources;
+    }
+
+    /**
+     * Filters out the targets whose last successful build was made from the same element-desktop commit
+     * and element-web nightly that a new one would be, unless they're forced. If we can't tell, they're
+     * built anyway.
+     */
+    private async skipUnchanged(
+        targets: Target[],
+        sources: ISourceVersions,
+        forced: Set<TargetId>,
+    ): Promise<Target[]> {
+        const toBuild: Target[] = [];
+        for (const target of targets) {
+            const lastBuild = this.lastBuildTimes[target.id]!;
+            const unchanged = sources.desktopSha !== undefined && sources.webVersion !== undefined &&
+                lastBuild.desktopSha === sources.desktopSha && lastBuild.webVersion === sources.webVersion;
+            if (!unchanged || forced.has(target.id) || target.id === this.resumeTarget) {
+                toBuild.push(target);
+                continue;
+            }
+
+            rootLogger.info(
+                `Skipping ${target.id}: neither element-desktop (${sources.desktopSha!.slice(0, 8)}) nor ` +
+                `element-web (${sources.webVersion!.slice(0, 8)}) have changed since ${lastBuild.version}`,
+            );
+            lastBuild.skipTime = Date.now();
+            await putLastBuild(target, lastBuild, rootLogger);
+            await appendHistory({
+                target: target.id,
+                time: lastBuild.skipTime,
+                result: "skipped",
+                version: lastBuild.version,
+                desktopSha: sources.desktopSha,
+            }, rootLogger);
+        }
+        return toBuild;
+    }
+
+    /**
+     * Posts what's gone into the build since the target's last successful one to its thread. That's
+     * not worth failing the build over, so if it can't be worked out there's just no changelog.
+     */
+    private async logChangelog(
+        target: Target,
+        repoDir: string,
+        version: string,
+        webVersion: string | undefined,
+        logger: Logger,
+    ): Promise<IChangelog | undefined> {
+        const lastBuild = this.lastBuildTimes[target.id]!;
+        if (isDryRun()) {
+            recordStep(`Post the changes to ${target.id} since ${lastBuild.desktopSha ?? "its last build"}`);
+            return undefined;
+        }
+
+        try {
+            const changelog = await getChangelog(new GitRepo(repoDir), lastBuild, version, webVersion);
+            logger.html(...formatChangelog(changelog, this.options.gitRepo));
+            return changelog;
+        } catch (e) {
+            logger.warn(`Unable to work out the changes since ${lastBuild.version}`, e);
+            return undefined;
+        }
+    }
+
+    // When resuming a build, it keeps the version it started with
+    private async getResumeVersion(target: Target): Promise<INightlyVersion | undefined> {
+        const checkpoint = await this.getResumePoint(target);
+        if (!checkpoint) return undefined;
+        return { version: checkpoint.version, number: this.versioning.parse(checkpoint.version)?.counter ?? 1 };
+    }
+
     protected getElectronBuilderConfig(pkg: Package, target: Target, buildVersion: string): PackageBuild {
         // The windows packager relies on parsing this as semver, so we have to make it look like one.
         // This will give our update packages really stupid names, but we probably can't change that either
@@ -218,7 +466,8 @@ export default class DesktopDevelopBuilder extends DesktopBuilder {
         };
     }
 
-    private async build(target: Target, buildVersion: string, logger: Logger): Promise<void> {
+    // Builds the target, returning the build dir, which is left until the packages are published
+    private async build(target: Target, buildVersion: string, logger: Logger): Promise<string> {
         if (target.platform === 'win32') {
             return this.buildWin(target as WindowsTarget, buildVersion, logger);
         } else {
@@ -226,7 +475,7 @@ export default class DesktopDevelopBuilder extends DesktopBuilder {
         }
     }
 
-    private async buildLocal(target: Target, buildVersion: string, logger: Logger): Promise<void> {
+    private async buildLocal(target: Target, buildVersion: string, logger: Logger): Promise<string> {
         const { repoDir } = await this.cloneRepo(target, buildVersion, logger);
 
         await this.writeElectronBuilderConfigFile(target, repoDir, buildVersion);
@@ -247,19 +496,18 @@ export default class DesktopDevelopBuilder extends DesktopBuilder {
             const targetInstallPath = path.join(this.appPubDir, 'install', 'macos');
             const targetUpdatePath = path.join(this.appPubDir, 'update', 'macos');
 
-            await fsProm.mkdir(targetInstallPath, { recursive: true });
-            await fsProm.mkdir(targetUpdatePath, { recursive: true });
+            await mkdirp(targetInstallPath);
+            await mkdirp(targetUpdatePath);
 
             // Be consistent with windows and don't bother putting the version number in the installer
             await copyMatchingFile(distPath, targetInstallPath, /\.dmg$/, logger, 'Element Nightly.dmg');
             await copyMatchingFile(distPath, targetUpdatePath, /-mac.zip$/, logger).then(async f => {
                 const updateUrl = `https://packages.element.io/nightly/update/macos/${encodeURIComponent(f)}`;
-                await this.writeDarwinReleaseFile(targetUpdatePath, buildVersion, updateUrl);
+                await this.writeDarwinReleaseFile(targetUpdatePath, buildVersion, updateUrl, logger);
             });
 
             const latestPath = path.join(this.appPubDir, 'update', 'macos', 'latest');
-            logger.info('Write ' + buildVersion + ' -> ' + latestPath);
-            await fsProm.writeFile(latestPath, buildVersion);
+            await writeAndLog(latestPath, buildVersion, logger);
 
             // prune update packages (the installer will just overwrite each time)
             await pruneBuilds(path.join(this.appPubDir, 'update', 'macos'), /-mac.zip$/, logger);
@@ -269,8 +517,7 @@ export default class DesktopDevelopBuilder extends DesktopBuilder {
             }
         }
 
-        logger.info("Removing build dir");
-        await rm(repoDir);
+        return repoDir;
     }
 
     protected getBuildEnv(): NodeJS.ProcessEnv {
@@ -281,79 +528,46 @@ export default class DesktopDevelopBuilder extends DesktopBuilder {
         };
     }
 
-    private async buildWin(target: WindowsTarget, buildVersion: string, logger: Logger): Promise<void> {
+    private async buildWin(target: WindowsTarget, buildVersion: string, logger: Logger): Promise<string> {
         // We still check out the repo locally because we need package.json to write the electron builder config file,
         // so we check out the repo twice for windows: once locally and once on the VM...
-        const { repoDir, buildDirName } = await this.cloneRepo(target, buildVersion, logger);
+        const { repoDir } = await this.cloneRepo(target, buildVersion, logger);
 
         await this.writeElectronBuilderConfigFile(target, repoDir, buildVersion);
 
-        const builder = this.makeWindowsBuilder(repoDir, target, logger);
-
-        logger.info("Starting Windows builder for " + target.id + '...');
-        await builder.start();
-        logger.info("...builder started");
-
-        try {
-            builder.appendScript('rd', buildDirName, '/s', '/q');
-            builder.appendScript('git', 'clone', this.options.gitRepo, buildDirName);
-            builder.appendScript('cd', buildDirName);
-            builder.appendScript('copy', 'z:\\' + ELECTRON_BUILDER_CFG_FILE, ELECTRON_BUILDER_CFG_FILE);
-            builder.appendScript('call', 'yarn', 'install');
-            builder.appendScript('call', 'yarn', 'run', 'hak', 'check', '--target', target.id);
-            builder.appendScript('call', 'yarn', 'run', 'build:native', '--target', target.id);
-            const fetchArgs = this.fetchArgs.map(a => a.replace(/\//g, "\\"));
-            builder.appendScript('call', 'yarn', 'run', 'fetch', ...fetchArgs);
-            builder.appendScript(
-                'call', 'yarn', 'build', `--${target.arch}`, '--config', ELECTRON_BUILDER_CFG_FILE,
-            );
-            builder.appendScript('xcopy dist z:\\dist /S /I /Y');
-            builder.appendScript('cd', '..');
-            builder.appendScript('rd', buildDirName, '/s', '/q');
-
-            logger.info("Starting build...");
-            await builder.runScript();
-            logger.info("Build complete!");
-
-            const squirrelDir = 'squirrel-windows' + (target.arch === 'ia32' ? '-ia32' : '');
-            const archDir = target.arch;
-
-            const distPath = path.join(repoDir, 'dist');
-            const squirrelPath = path.join(distPath, squirrelDir);
-            const targetInstallPath = path.join(this.appPubDir, 'install', 'win32', archDir);
-            const targetUpdatePath = path.join(this.appPubDir, 'update', 'win32', archDir);
-
-            await fsProm.mkdir(path.join(targetInstallPath, 'msi'), { recursive: true });
-            await fsProm.mkdir(targetUpdatePath, { recursive: true });
-
-            await copyMatchingFile(
-                squirrelPath,
-                targetInstallPath,
-                /\.exe$/,
-                logger,
-                'Element Nightly Setup.exe',
-            );
-            await copyMatchingFile(
-                distPath,
-                path.join(targetInstallPath, 'msi'),
-                /\.msi$/,
-                logger,
-                'Element Nightly Setup.msi',
-            );
-            await copyMatchingFiles(squirrelPath, targetUpdatePath, /\.nupkg$/, logger);
-            await copyMatchingFiles(squirrelPath, targetUpdatePath, /^RELEASES$/, logger);
-
-            // prune update packages (installers are overwritten each time)
-            await pruneBuilds(path.join(this.appPubDir, 'update', 'win32', archDir), /\.nupkg$/, logger);
-        } catch (e) {
-            if (e instanceof LoggableError) {
-                logger.file(e.log);
-            }
-        } finally {
-            await builder.stop();
-        }
-
-        logger.info("Removing build dir");
-        await rm(repoDir);
+        await this.buildInWindows(target, repoDir, buildVersion, logger);
+
+        const squirrelDir = 'squirrel-windows' + (target.arch === 'ia32' ? '-ia32' : '');
+        const archDir = target.arch;
+
+        const distPath = path.join(repoDir, 'dist');
+        const squirrelPath = path.join(distPath, squirrelDir);
+        const targetInstallPath = path.join(this.appPubDir, 'install', 'win32', archDir);
+        const targetUpdatePath = path.join(this.appPubDir, 'update', 'win32', archDir);
+
+        await mkdirp(path.join(targetInstallPath, 'msi'));
+        await mkdirp(targetUpdatePath);
+
+        await copyMatchingFile(
+            squirrelPath,
+            targetInstallPath,
+            /\.exe$/,
+            logger,
+            'Element Nightly Setup.exe',
+        );
+        await copyMatchingFile(
+            distPath,
+            path.join(targetInstallPath, 'msi'),
+            /\.msi$/,
+            logger,
+            'Element Nightly Setup.msi',
+        );
+        await copyMatchingFiles(squirrelPath, targetUpdatePath, /\.nupkg$/, logger);
+        await copyMatchingFiles(squirrelPath, targetUpdatePath, /^RELEASES$/, logger);
+
+        // prune update packages (installers are overwritten each time)
+        await pruneBuilds(path.join(this.appPubDir, 'update', 'win32', archDir), /\.nupkg$/, logger);
+
+        return repoDir;
     }
 }
@@ -0,0 +1,318 @@
+/*
+Copyright 2022 New Vector Ltd
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { promises as fsProm } from 'fs';
+import * as path from 'path';
+import { Target, WindowsTarget } from 'element-desktop/scripts/hak/target';
+
+import rootLogger, { LoggableError, Logger } from './logger';
+import { setDebVersion } from './debian';
+import { copyMatchingFile, copyMatchingFiles, mkdirp, rm, unpublishArtifacts, writeAndLog } from './artifacts';
+import DesktopBuilder, { Options, Package, PackageBuild } from "./desktop_builder";
+import { isDryRun, recordStep } from "./dry_run";
+import GitRepo from "./gitrepo";
+import { withRetries } from "./retry";
+import { IStepContext } from "./pipeline";
+import { CachedDir } from "./dep_cache";
+import { checkVersion, VersionError } from "./versioning";
+
+export const DEFAULT_PREVIEW_RETENTION_DAYS = 14;
+
+// The local branch the preview's commit is checked out on, which the Windows VM clones
+const PREVIEW_BRANCH = "element-builder-preview";
+const PREVIEW_METADATA_FILE = "preview.json";
+
+interface IPreviewMetadata {
+    ref: string;
+    desktopSha?: string;
+    version: string;
+    time: number;
+    expires: number;
+}
+
+/**
+ * The name a preview of the given ref is published & built under: pr<N> for a pull request or the
+ * abbreviated commit for a SHA. Undefined if it isn't a ref we can build a preview of.
+ */
+export function getPreviewName(ref: string): string | undefined {
+    const pr = /^refs\/pull\/(\d+)\/head$/.exec(ref);
+    if (pr) return "pr" + pr[1];
+    // GitHub only lets us fetch a commit by its full SHA
+    if (/^[0-9a-f]{40}$/.test(ref)) return ref.slice(0, 12);
+    return undefined;
+}
+
+function getPreviewVersion(): string {
+    const now = new Date();
+    // 0.0.1-preview.YYYYMMDD.HHmm: as with the nightlies, squirrel windows parses each part of the version
+    // into a 32 bit integer & won't have leading zeros, so the time is a part of its own without them.
+    // 0.0.0 makes squirrel windows crash.
+    const date = now.getFullYear().toString() +
+        (now.getMonth() + 1).toString().padStart(2, '0') +
+        now.getDate().toString().padStart(2, '0');
+    const version = `${date}.${now.getHours() * 100 + now.getMinutes()}`;
+    const problems = checkVersion(version);
+    if (problems.length) {
+        throw new VersionError(`Preview version ${version} won't do:\n\t` + problems.join("\n\t"));
+    }
+    return "0.0.1-preview." + version;
+}
+
+/**
+ * Builds any commit or pull request of element-desktop as a "preview": an app with its own appId &
+ * name, so it installs alongside Nightly, published under preview/<name> until it expires.
+ */
+export default class DesktopPreviewBuilder extends DesktopBuilder {
+    public readonly mode = "preview";
+    private readonly previewName: string;
+    private readonly appPubDir: string;
+    private readonly previewVersion = getPreviewVersion();
+
+    constructor(options: Options, private readonly ref: string) {
+        super(options, {
+            fetchArgs: ["develop", "-d", "element.io/nightly"],
+            dockerImage: "element-desktop-dockerbuild-develop",
+        });
+        const previewName = getPreviewName(ref);
+        if (!previewName) {
+            throw new Error(`Can't build a preview of ${ref}: expected a full commit SHA or refs/pull/<N>/head`);
+        }
+        this.previewName = previewName;
+        this.appPubDir = path.join(this.pubDir, 'preview', previewName);
+    }
+
+    protected printInfo(): void {
+        console.log(`Warming up Preview builder for ${this.ref}`);
+        super.printInfo();
+    }
+
+    public async startBuild(): Promise<void> {
+        rootLogger.info(`Starting Element Desktop preview builder for ${this.ref}...`);
+        const introLogger = rootLogger.threadLogger();
+        this.building = false;
+
+        await this.preflight(introLogger);
+
+        await this.loadSigningKeyContainer();
+
+        if (this.building) return;
+
+        const toBuild = this.options.targets;
+        if (toBuild.length === 0) return;
+
+        const buildDirs: string[] = [];
+        try {
+            this.building = true;
+            await this.updateGitMirror(rootLogger);
+
+            const built = await this.buildTargets(toBuild, async target => {
+                rootLogger.info(`Starting preview build of ${target.id} for ${this.ref}`);
+                // Before anything else is sent to the room, so that each target's thread is its own
+                const jobReactionLogger = rootLogger.reactionLogger();
+                const threadLogger = rootLogger.threadLogger();
+                const buildLog = await this.openBuildLog(target, this.previewName);
+                const logger = threadLogger.withBuildLog(buildLog);
+                try {
+                    buildDirs.push(await this.build(target, logger));
+                    jobReactionLogger.info("✅ Done!");
+                    return true;
+                } catch (e) {
+                    logger.error(`Build failed! Full log in ${buildLog.path}`, e);
+                    jobReactionLogger.info("🚨 Failed!");
+
+                    if (e instanceof LoggableError) {
+                        logger.file(e.log);
+                    }
+                    return false;
+                } finally {
+                    await this.closeBuildLog(buildLog);
+                }
+            });
+            if (!built) return;
+
+            await this.writeMetadata(toBuild[0], rootLogger);
+            await this.pruneExpired(rootLogger);
+            await this.pushArtifacts(toBuild);
+            await this.removeBuildDirs(buildDirs, rootLogger);
+        } catch (e) {
+            rootLogger.error("Artifact sync failed!", e);
+            if (e instanceof LoggableError) {
+                rootLogger.file(e.log);
+            }
+        } finally {
+            this.building = false;
+        }
+    }
+
+    /**
+     * Clones the default branch as usual, then fetches the ref on top of it and checks that out on a
+     * local branch, which the Windows VM can clone in turn.
+     */
+    protected async cloneRepo(target: Target, buildVersion: string, logger: Logger): Promise<{
+        buildDirName: string;
+        repoDir: string;
+        repo: GitRepo;
+    }> {
+        const clone = await super.cloneRepo(target, buildVersion, logger);
+        if (isDryRun()) {
+            recordStep(`git fetch origin ${this.ref} && git checkout -B ${PREVIEW_BRANCH} FETCH_HEAD`);
+            return clone;
+        }
+
+        // A resumed build already has it checked out
+        if (await clone.repo.getCurrentBranch() !== PREVIEW_BRANCH) {
+            await withRetries(`git fetch ${this.ref}`, this.retryPolicy("clone"), logger, () => (
+                clone.repo.fetch("origin", this.ref)
+            ));
+            await clone.repo.checkout("-B", PREVIEW_BRANCH, "FETCH_HEAD");
+        }
+        const sha = await clone.repo.getHeadSha();
+        this.checkedOutShas.set(target.id, sha);
+        logger.info(`...checked out ${this.ref} at ${sha}`);
+
+        return clone;
+    }
+
+    protected getStepContext(target: Target, repoDir: string, saveDirs: CachedDir[] = []): IStepContext {
+        return {
+            ...super.getStepContext(target, repoDir, saveDirs),
+            gitBranch: PREVIEW_BRANCH,
+        };
+    }
+
+    protected getElectronBuilderConfig(pkg: Package, target: Target, buildVersion: string): PackageBuild {
+        const cfg = super.getElectronBuilderConfig(pkg, target, buildVersion);
+        return {
+            ...cfg,
+            extraMetadata: {
+                ...cfg.extraMetadata,
+                productName: cfg.extraMetadata!.productName + " Preview",
+                name: "element-desktop-preview",
+                version: this.previewVersion,
+            },
+            appId: "im.riot.preview",
+        };
+    }
+
+    // Builds the target, returning the build dir, which is left until the packages are published
+    private async build(target: Target, logger: Logger): Promise<string> {
+        const { repoDir } = await this.cloneRepo(target, this.previewName, logger);
+        await this.writeElectronBuilderConfigFile(target, repoDir, this.previewName);
+
+        const distPath = path.join(repoDir, 'dist');
+        if (target.platform === 'win32') {
+            const winTarget = target as WindowsTarget;
+            await this.buildInWindows(winTarget, repoDir, this.previewName, logger);
+
+            const squirrelDir = 'squirrel-windows' + (winTarget.arch === 'ia32' ? '-ia32' : '');
+            const targetPath = path.join(this.appPubDir, 'win32', winTarget.arch);
+            await mkdirp(targetPath);
+            await copyMatchingFile(
+                path.join(distPath, squirrelDir), targetPath, /\.exe$/, logger, 'Element Preview Setup.exe',
+            );
+            await copyMatchingFile(distPath, targetPath, /\.msi$/, logger, 'Element Preview Setup.msi');
+            return repoDir;
+        }
+
+        if (target.platform === 'linux') {
+            const debControl = path.join(repoDir, 'debcontrol');
+            await setDebVersion(
+                this.previewVersion,
+                this.options.debianVersion,
+                path.join(repoDir, 'element.io', 'nightly', 'control.template'),
+                debControl,
+                logger,
+            );
+            // Its own package, so it installs alongside the nightly one
+            const control = await fsProm.readFile(debControl, 'utf8');
+            await fsProm.writeFile(debControl, control.replace(/^Package: .*$/m, "Package: element-preview"));
+        }
+
+        await this.buildWithRunner(target, repoDir, this.previewName, logger);
+
+        if (target.platform === 'darwin') {
+            const targetPath = path.join(this.appPubDir, 'macos');
+            await mkdirp(targetPath);
+            await copyMatchingFile(distPath, targetPath, /\.dmg$/, logger, 'Element Preview.dmg');
+        } else if (target.platform === 'linux') {
+            // Previews don't go in the debian repo: they're just there to be downloaded
+            const targetPath = path.join(this.appPubDir, 'linux');
+            await mkdirp(targetPath);
+            await copyMatchingFiles(distPath, targetPath, /\.deb$/, logger);
+        }
+
+        return repoDir;
+    }
+
+    protected getBuildEnv(): NodeJS.ProcessEnv {
+        return {
+            ...super.getBuildEnv(),
+            // As for the nightlies, fetching the develop web build needs the buildkite api key
+            BUILDKITE_API_KEY: process.env['BUILDKITE_API_KEY'],
+        };
+    }
+
+    private get retentionDays(): number {
+        return this.options.previewRetentionDays ?? DEFAULT_PREVIEW_RETENTION_DAYS;
+    }
+
+    private async writeMetadata(target: Target, logger: Logger): Promise<void> {
+        const now = Date.now();
+        const metadata: IPreviewMetadata = {
+            ref: this.ref,
+            desktopSha: this.checkedOutShas.get(target.id),
+            version: this.previewVersion,
+            time: now,
+            expires: now + this.retentionDays * 24 * 60 * 60 * 1000,
+        };
+        await writeAndLog(
+            path.join(this.appPubDir, PREVIEW_METADATA_FILE),
+            JSON.stringify(metadata, null, 4),
+            logger,
+        );
+    }
+
+    /**
+     * Removes the previews whose expiry time has passed, both here and from the S3 bucket: the rsync
+     * of the next sync unpublishes them by itself.
+     * Previews are only ever removed by their metadata, so anything else in preview/ is left alone.
+     */
+    private async pruneExpired(logger: Logger): Promise<void> {
+        const previewsDir = path.join(this.pubDir, 'preview');
+        let names: string[];
+        try {
+            names = await fsProm.readdir(previewsDir);
+        } catch (e) {
+            return; // no previews yet
+        }
+
+        for (const name of names) {
+            if (name === this.previewName) continue;
+            const metadataFile = path.join(previewsDir, name, PREVIEW_METADATA_FILE);
+            let metadata: IPreviewMetadata;
+            try {
+                metadata = JSON.parse(await fsProm.readFile(metadataFile, 'utf8'));
+            } catch (e) {
+                continue;
+            }
+            if (metadata.expires < Date.now()) {
+                logger.info(`Removing expired preview ${name} of ${metadata.ref}`);
+                await rm(path.join(previewsDir, name));
+                await unpublishArtifacts(`preview/${name}`, this.options, logger);
+            }
+        }
+    }
+}
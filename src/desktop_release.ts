@@ -23,14 +23,20 @@ import { setDebVersion, addDeb } from './debian';
 import {
     getMatchingFilesInDir,
     copyAndLog,
-    rm,
     updateSymlink,
     copyMatchingFiles,
     copyMatchingFile,
+    mkdirp,
+    writeAndLog,
 } from './artifacts';
-import DesktopBuilder, { ELECTRON_BUILDER_CFG_FILE, Options } from "./desktop_builder";
+import DesktopBuilder, { Options } from "./desktop_builder";
+import { isDryRun, recordStep } from "./dry_run";
+import { IPreflightCheck, pathCheck, toolCheck } from "./doctor";
+import Pipeline from "./pipeline";
+import GitRepo from "./gitrepo";
 
 export default class DesktopReleaseBuilder extends DesktopBuilder {
+    public readonly mode = "release";
     private appPubDir = path.join(this.pubDir, 'desktop');
     private gnupgDir = path.join(process.cwd(), 'gnupg');
 
@@ -53,22 +59,7 @@ export default class DesktopReleaseBuilder extends DesktopBuilder {
         const introLogger = rootLogger.threadLogger();
         this.building = false;
 
-        try {
-            await fsProm.stat(this.gnupgDir);
-        } catch (e) {
-            introLogger.error("No 'gnupg' directory found");
-            introLogger.error(
-                "This should be a separate gpg home directory that trusts the element release " +
-                "public key (without any private keys) that will be passed into the builders to",
-                "verify the package they download",
-            );
-            introLogger.error("You can create this by running:\n");
-            introLogger.error(
-                "> mkdir gnupg && curl -s https://packages.riot.im/element-release-key.asc | " +
-                "gpg --homedir gnupg --import",
-            );
-            return;
-        }
+        await this.preflight(introLogger);
 
         introLogger.info("Using gnupg homedir " + this.gnupgDir);
 
@@ -79,31 +70,40 @@ export default class DesktopReleaseBuilder extends DesktopBuilder {
         const toBuild = this.options.targets;
         if (toBuild.length === 0) return;
 
+        const buildDirs: string[] = [];
         try {
             this.building = true;
+            await this.updateGitMirror(rootLogger);
 
-            for (const target of toBuild) {
+            const built = await this.buildTargets(toBuild, async target => {
                 rootLogger.info(`Starting build of ${target.id} for ${this.gitBranch}`);
+                // Before anything else is sent to the room, so that each target's thread is its own
                 const jobReactionLogger = rootLogger.reactionLogger();
-                const logger = rootLogger.threadLogger();
+                const threadLogger = rootLogger.threadLogger();
+                const buildLog = await this.openBuildLog(target, this.gitBranch);
+                const logger = threadLogger.withBuildLog(buildLog);
                 try {
-                    await this.build(target, logger);
+                    buildDirs.push(await this.build(target, logger));
                     jobReactionLogger.info("✅ Done!");
+                    return true;
                 } catch (e) {
-                    logger.error("Build failed!", e);
+                    logger.error(`Build failed! Full log in ${buildLog.path}`, e);
                     jobReactionLogger.info("🚨 Failed!");
-                    // if one fails, bail out of the whole process: probably better
-                    // to have all platforms not updating than just one
 
                     if (e instanceof LoggableError) {
                         logger.file(e.log);
                     }
-
-                    return;
+                    return false;
+                } finally {
+                    await this.closeBuildLog(buildLog);
                 }
-            }
+            });
+            // if one fails, don't publish any: probably better
+            // to have all platforms not updating than just one
+            if (!built) return;
 
             await this.pushArtifacts(toBuild);
+            await this.removeBuildDirs(buildDirs, rootLogger);
         } catch (e) {
             rootLogger.error("Artifact sync failed!", e);
             if (e instanceof LoggableError) {
@@ -114,6 +114,23 @@ export default class DesktopReleaseBuilder extends DesktopBuilder {
         }
     }
 
+    protected getPreflightChecks(): IPreflightCheck[] {
+        return [
+            ...super.getPreflightChecks(),
+            toolCheck("gpg"),
+            pathCheck(
+                "gnupg homedir",
+                // XXX: The docker image we use has gnupg 1 so uses pubring.gpg rather than pubring.kbx.
+                ['pubring.gpg', 'trustdb.gpg'].map(f => path.join(this.gnupgDir, f)),
+                "This should be a separate gpg home directory that trusts the element release " +
+                "public key (without any private keys) that will be passed into the builders to " +
+                "verify the package they download. You can create this by running:\n" +
+                "> mkdir gnupg && curl -s https://packages.riot.im/element-release-key.asc | " +
+                "gpg --homedir gnupg --import",
+            ),
+        ];
+    }
+
     private async copyGnupgDir(repoDir: string, logger: Logger) {
         const dest = path.join(repoDir, 'gnupg');
         // We copy rather than symlink so an individual builder can't
@@ -121,7 +138,7 @@ export default class DesktopReleaseBuilder extends DesktopBuilder {
         // a) node doesn't have a recursive copy and b) the gpg
         // home directory contains sockets which can't just be
         // copied, so just copy specific files.
-        await fsProm.mkdir(dest);
+        await mkdirp(dest);
 
         // XXX: The docker image we use has gnupg 1 so uses pubring.gpg rather than pubring.kbx.
         // If we use the old gpg format, that works with both.
@@ -134,7 +151,46 @@ export default class DesktopReleaseBuilder extends DesktopBuilder {
         }
     }
 
-    private async build(target: Target, logger: Logger): Promise<void> {
+    /**
+     * Refuses to build anything but an annotated tag, signed by one of the keys in the gnupg homedir,
+     * whose name matches the version in its package.json.
+     */
+    private async verifyTag(repo: GitRepo, version: string, logger: Logger): Promise<void> {
+        const tag = this.gitBranch;
+        if (isDryRun()) {
+            recordStep(`Verify ${tag} is a tag signed by a key in ${this.gnupgDir}, for version ${version}`);
+            return;
+        }
+
+        let type: string;
+        try {
+            type = await repo.getObjectType(`refs/tags/${tag}`);
+        } catch (e) {
+            throw new Error(`Refusing to build ${tag}: it isn't a tag`);
+        }
+        if (type !== "tag") {
+            throw new Error(`Refusing to build ${tag}: it's a lightweight tag, releases must be signed annotated tags`);
+        }
+
+        let status: string;
+        try {
+            status = await repo.verifyTag(`refs/tags/${tag}`, this.gnupgDir);
+        } catch (e) {
+            throw new Error(`Refusing to build ${tag}: its signature couldn't be verified:\n${(e as Error).message}`);
+        }
+        const goodSig = /^\[GNUPG:\] GOODSIG \S+ (.*)$/m.exec(status);
+        if (!goodSig) {
+            throw new Error(`Refusing to build ${tag}: it isn't signed by a trusted key:\n${status}`);
+        }
+
+        if (tag !== version && tag !== `v${version}`) {
+            throw new Error(`Refusing to build ${tag}: its package.json is for version ${version}`);
+        }
+        logger.info(`Verified tag ${tag}, signed by ${goodSig[1]}`);
+    }
+
+    // Builds the target, returning the build dir, which is left until the packages are published
+    private async build(target: Target, logger: Logger): Promise<string> {
         if (target.platform === 'win32') {
             return this.buildWin(target as WindowsTarget, logger);
         } else {
@@ -142,9 +198,10 @@ export default class DesktopReleaseBuilder extends DesktopBuilder {
         }
     }
 
-    private async buildLocal(target: Target, logger: Logger): Promise<void> {
-        const { repoDir } = await this.cloneRepo(target, this.gitBranch, logger);
+    private async buildLocal(target: Target, logger: Logger): Promise<string> {
+        const { repo, repoDir } = await this.cloneRepo(target, this.gitBranch, logger);
         const buildVersion = JSON.parse(await fsProm.readFile(path.join(repoDir, 'package.json'), 'utf8')).version;
+        await this.verifyTag(repo, buildVersion, logger);
 
         await this.writeElectronBuilderConfigFile(target, repoDir, buildVersion);
         if (target.platform == 'linux') {
@@ -165,28 +222,26 @@ export default class DesktopReleaseBuilder extends DesktopBuilder {
             const targetInstallPath = path.join(this.appPubDir, 'install', 'macos');
             const targetUpdatePath = path.join(this.appPubDir, 'update', 'macos');
 
-            await fsProm.mkdir(targetInstallPath, { recursive: true });
-            await fsProm.mkdir(targetUpdatePath, { recursive: true });
+            await mkdirp(targetInstallPath);
+            await mkdirp(targetUpdatePath);
 
             await copyMatchingFile(distPath, targetInstallPath, /\.dmg$/, logger).then(f => (
                 updateSymlink(f, path.join(targetInstallPath, 'Element.dmg'), logger)
             ));
             await copyMatchingFile(distPath, targetUpdatePath, /-mac.zip$/, logger).then(async f => {
                 const updateUrl = `https://packages.element.io/desktop/update/macos/${encodeURIComponent(f)}`;
-                await this.writeDarwinReleaseFile(targetUpdatePath, buildVersion, updateUrl);
+                await this.writeDarwinReleaseFile(targetUpdatePath, buildVersion, updateUrl, logger);
             });
 
             const latestPath = path.join(this.appPubDir, 'update', 'macos', 'latest');
-            logger.info('Write ' + buildVersion + ' -> ' + latestPath);
-            await fsProm.writeFile(latestPath, buildVersion);
+            await writeAndLog(latestPath, buildVersion, logger);
         } else if (target.platform === 'linux') {
             for (const f of await getMatchingFilesInDir(path.join(repoDir, 'dist'), /\.deb$/)) {
                 await addDeb(this.debDir, path.resolve(repoDir, 'dist', f), logger);
             }
         }
 
-        logger.info("Removing build dir");
-        await rm(repoDir);
+        return repoDir;
     }
 
     protected getBuildEnv(): NodeJS.ProcessEnv {
@@ -196,70 +251,49 @@ export default class DesktopReleaseBuilder extends DesktopBuilder {
         };
     }
 
-    private async buildWin(target: WindowsTarget, logger: Logger): Promise<void> {
+    protected getPipeline(): Pipeline {
+        // The VM has its own checkout, so needs its own copy of the gnupg dir too (see copyGnupgDir)
+        return super.getPipeline().withStepAfter("checkout", {
+            name: "gnupg",
+            kind: "install",
+            platforms: ["win32"],
+            commands: () => [["xcopy", "z:\\gnupg", "gnupg", "/S", "/I", "/Y"]],
+        });
+    }
+
+    private async buildWin(target: WindowsTarget, logger: Logger): Promise<string> {
         // We still check out the repo locally because we need package.json to write the electron builder config file,
         // so we check out the repo twice for windows: once locally and once on the VM...
-        const { repoDir, buildDirName } = await this.cloneRepo(target, this.gitBranch, logger);
+        const { repo, repoDir } = await this.cloneRepo(target, this.gitBranch, logger);
 
         const buildVersion = JSON.parse(await fsProm.readFile(path.join(repoDir, 'package.json'), 'utf8')).version;
+        // Before the VM is started: there's no point if we're not going to release it
+        await this.verifyTag(repo, buildVersion, logger);
 
         await this.writeElectronBuilderConfigFile(target, repoDir, buildVersion);
 
         await this.copyGnupgDir(repoDir, logger);
 
-        const builder = this.makeWindowsBuilder(repoDir, target, logger);
-
-        logger.info("Starting Windows builder for " + target.id + '...');
-        await builder.start();
-        logger.info("...builder started");
+        await this.buildInWindows(target, repoDir, buildVersion, logger);
 
-        try {
-            builder.appendScript('rd', buildDirName, '/s', '/q');
-            // Clone element-desktop at tag / branch to build from, e.g. v1.6.0
-            builder.appendScript('git', 'clone', this.options.gitRepo, buildDirName, '-b', this.gitBranch);
-            builder.appendScript('cd', buildDirName);
-            builder.appendScript('copy', 'z:\\' + ELECTRON_BUILDER_CFG_FILE, ELECTRON_BUILDER_CFG_FILE);
-            builder.appendScript('xcopy', 'z:\\gnupg', 'gnupg', '/S', '/I', '/Y');
-            builder.appendScript('call', 'yarn', 'install');
-            builder.appendScript('call', 'yarn', 'run', 'hak', 'check', '--target', target.id);
-            builder.appendScript('call', 'yarn', 'run', 'build:native', '--target', target.id);
-            // This will fetch the Element release from GitHub that matches the
-            // version in element-desktop's package.json.
-            const fetchArgs = this.fetchArgs.map(a => a.replace(/\//g, "\\"));
-            builder.appendScript('call', 'yarn', 'run', 'fetch', ...fetchArgs);
-            builder.appendScript(
-                'call', 'yarn', 'build', `--${target.arch}`, '--config', ELECTRON_BUILDER_CFG_FILE,
-            );
-            builder.appendScript('xcopy dist z:\\dist /S /I /Y');
-            builder.appendScript('cd', '..');
-            builder.appendScript('rd', buildDirName, '/s', '/q');
+        const squirrelDir = 'squirrel-windows' + (target.arch === 'ia32' ? '-ia32' : '');
+        const archDir = target.arch;
 
-            logger.info("Starting build...");
-            await builder.runScript();
-            logger.info("Build complete!");
+        const distPath = path.join(repoDir, 'dist');
+        const squirrelPath = path.join(distPath, squirrelDir);
+        const targetInstallPath = path.join(this.appPubDir, 'install', 'win32', archDir);
+        const targetUpdatePath = path.join(this.appPubDir, 'update', 'win32', archDir);
 
-            const squirrelDir = 'squirrel-windows' + (target.arch === 'ia32' ? '-ia32' : '');
-            const archDir = target.arch;
+        await mkdirp(path.join(targetInstallPath, 'msi'));
+        await mkdirp(targetUpdatePath);
 
-            const distPath = path.join(repoDir, 'dist');
-            const squirrelPath = path.join(distPath, squirrelDir);
-            const targetInstallPath = path.join(this.appPubDir, 'install', 'win32', archDir);
-            const targetUpdatePath = path.join(this.appPubDir, 'update', 'win32', archDir);
-
-            await fsProm.mkdir(path.join(targetInstallPath, 'msi'), { recursive: true });
-            await fsProm.mkdir(targetUpdatePath, { recursive: true });
-
-            await copyMatchingFile(squirrelPath, targetInstallPath, /\.exe$/, logger).then(f => (
-                updateSymlink(f, path.join(targetInstallPath, 'Element Setup.exe'), logger)
-            ));
-            await copyMatchingFile(distPath, path.join(targetInstallPath, 'msi'), /\.msi$/, logger);
-            await copyMatchingFiles(squirrelPath, targetUpdatePath, /\.nupkg$/, logger);
-            await copyMatchingFiles(squirrelPath, targetUpdatePath, /^RELEASES$/, logger);
-        } finally {
-            await builder.stop();
-        }
+        await copyMatchingFile(squirrelPath, targetInstallPath, /\.exe$/, logger).then(f => (
+            updateSymlink(f, path.join(targetInstallPath, 'Element Setup.exe'), logger)
+        ));
+        await copyMatchingFile(distPath, path.join(targetInstallPath, 'msi'), /\.msi$/, logger);
+        await copyMatchingFiles(squirrelPath, targetUpdatePath, /\.nupkg$/, logger);
+        await copyMatchingFiles(squirrelPath, targetUpdatePath, /^RELEASES$/, logger);
 
-        logger.info("Removing build dir");
-        await rm(repoDir);
+        return repoDir;
     }
 }
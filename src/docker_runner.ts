@@ -14,53 +14,148 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 
-import { IRunner } from './runner';
-import { Logger } from "./logger";
+import { promises as fsProm } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { IRunner, IRunOptions } from './runner';
+import { AbortedError, Logger, TimeoutError } from "./logger";
 import { spawn } from "./spawn";
 
+export type ContainerEngine = "docker" | "podman";
+
+export interface IContainerOptions {
+    engine?: ContainerEngine;
+    // Passed to --platform: the images are amd64 but our build hosts may not be
+    platform?: string;
+    // Limits, in the engine's own --cpus & --memory formats (eg. 4 & "8g")
+    cpus?: number;
+    memory?: string;
+    // Extra bind mounts, as host-path:container-path[:options]
+    mounts?: string[];
+}
+
+const PROJECT_DIR = "/project";
+const HOME_DIR = "/home/builder";
+
+// Shared by every runner in the process, as several targets can be building in containers at once
+let containerNum = 0;
+
 /**
- * Actually this isn't really a Docker runner: all the docker logic is
- * handled by the in-docker script which is passed in, but for now it's
- * probably least confusing to name it after the thing we use it for.
+ * Runs commands in a container of the given image, with the repo bind mounted as the working
+ * directory. Commands run as the invoking user so that nothing in dist/ ends up owned by root,
+ * and only the env vars we're given are passed in.
  */
 export default class DockerRunner implements IRunner {
-    private readonly env: NodeJS.ProcessEnv;
+    private readonly engine: ContainerEngine;
 
     constructor(
         private readonly cwd: string,
-        private readonly wrapper: string,
         private readonly imageName: string,
         private readonly logger: Logger,
-        env: NodeJS.ProcessEnv = {},
+        private readonly env: NodeJS.ProcessEnv = {},
+        private readonly options: IContainerOptions = {},
     ) {
-        this.env = {
-            ...process.env,
-            DOCKER_IMAGE_NAME: imageName,
-        };
-        // Prefix any env vars passed with INDOCKER_ for the in-docker.sh script to forward them
-        Object.keys(env).forEach(k => {
-            this.env["INDOCKER_" + k] = env[k];
-        });
+        this.engine = options.engine ?? "docker";
     }
 
     public async setup(): Promise<void> {
         this.logger.info("Updating Docker image");
         // Based on element-desktop yarn docker:setup but with a custom image name
-        return spawn("docker", [
+        return spawn(this.engine, [
             "build",
+            "--platform", this.options.platform ?? "linux/amd64",
             "-t", this.imageName,
             "dockerbuild",
         ], {
             cwd: this.cwd,
-            env: this.env,
+            logger: this.logger,
         });
     }
 
-    public run(cmd: string, ...args: string[]): Promise<void> {
+    // The dirs we bind mount into every container, as [host dir, container dir]
+    private getMounts(): [string, string][] {
+        const projectDir = path.resolve(this.cwd);
+        const cacheDir = path.join(os.homedir(), ".cache");
+        return [
+            [projectDir, PROJECT_DIR],
+            // A home dir the user can write to, kept with the build so yarn & friends can cache things
+            [path.join(projectDir, "docker", "home"), HOME_DIR],
+            [path.join(cacheDir, "electron"), `${HOME_DIR}/.cache/electron`],
+            [path.join(cacheDir, "electron-builder"), `${HOME_DIR}/.cache/electron-builder`],
+        ];
+    }
+
+    private getRunArgs(name: string): string[] {
+        const { uid, gid } = os.userInfo();
+
+        const args = [
+            "run", "--rm", "--init",
+            "--name", name,
+            "--platform", this.options.platform ?? "linux/amd64",
+            "-w", PROJECT_DIR,
+            "--user", `${uid}:${gid}`,
+            "-e", `HOME=${HOME_DIR}`,
+        ];
+        if (this.engine === "podman") {
+            // Rootless podman maps root to the invoking user, so make it map the user to itself instead
+            args.push("--userns=keep-id");
+        }
+        for (const [hostDir, containerDir] of this.getMounts()) {
+            args.push("-v", `${hostDir}:${containerDir}`);
+        }
+        for (const mount of this.options.mounts ?? []) {
+            args.push("-v", mount);
+        }
+        if (this.options.cpus !== undefined) {
+            args.push("--cpus", this.options.cpus.toString());
+        }
+        if (this.options.memory !== undefined) {
+            args.push("--memory", this.options.memory);
+        }
+        // Just the names: the values come from the environment of the engine process, so they
+        // don't appear on any command line.
+        for (const k of Object.keys(this.env)) {
+            if (this.env[k] !== undefined) args.push("-e", k);
+        }
+
+        args.push(this.imageName);
+        return args;
+    }
+
+    public async finish(): Promise<void> {
+        // the repo is bind mounted, so dist/ is already where it should be
+    }
+
+    public async run(cmd: string, args: string[] = [], options: IRunOptions = {}): Promise<void> {
         this.logger.info([cmd, ...args].join(' '));
-        return spawn(this.wrapper, [cmd].concat(...args), {
-            cwd: this.cwd,
-            env: this.env,
-        });
+
+        const name = `element-builder-${process.pid}-${++containerNum}`;
+        // Otherwise the engine creates them, owned by root
+        for (const [hostDir] of this.getMounts()) {
+            await fsProm.mkdir(hostDir, { recursive: true });
+        }
+
+        try {
+            await spawn(this.engine, [...this.getRunArgs(name), cmd, ...args], {
+                cwd: this.cwd,
+                env: {
+                    ...process.env,
+                    ...this.env,
+                },
+                logger: this.logger,
+                ...options,
+            });
+        } catch (e) {
+            if (e instanceof TimeoutError || e instanceof AbortedError) {
+                // Killing the client doesn't stop the container, so do that too
+                try {
+                    await spawn(this.engine, ["kill", name], {}, false);
+                } catch (killErr) {
+                    // probably already gone
+                }
+            }
+            throw e;
+        }
     }
 }
@@ -0,0 +1,99 @@
+/*
+Copyright 2022 New Vector Ltd
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { execFile } from "child_process";
+import { promises as fsProm } from 'fs';
+
+import { Logger } from "./logger";
+
+export class PreflightError extends Error {}
+
+export interface IPreflightCheck {
+    name: string;
+    /**
+     * Resolves with a short description of what was found (eg. a version), or rejects
+     * with an explanation of what's wrong.
+     */
+    run(): Promise<string>;
+}
+
+export function execOutput(cmd: string, args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+        execFile(cmd, args, { timeout: 60 * 1000 }, (err, stdout, stderr) => {
+            if (err) {
+                const code = (err as NodeJS.ErrnoException).code;
+                if (code === "ENOENT") {
+                    reject(new Error(`${cmd} not found on PATH`));
+                } else {
+                    reject(new Error(`'${cmd} ${args.join(" ")}' failed: ${stderr.trim() || err.message}`));
+                }
+            } else {
+                resolve(stdout.trim());
+            }
+        });
+    });
+}
+
+/**
+ * Checks a tool is installed by asking it for its version.
+ */
+export function toolCheck(cmd: string, versionArgs = ["--version"]): IPreflightCheck {
+    return {
+        name: cmd,
+        run: async () => (await execOutput(cmd, versionArgs)).split("\n")[0],
+    };
+}
+
+export function pathCheck(name: string, paths: string[], hint?: string): IPreflightCheck {
+    return {
+        name,
+        run: async () => {
+            for (const p of paths) {
+                try {
+                    await fsProm.stat(p);
+                } catch (e) {
+                    throw new Error(`${p} not found` + (hint ? `\n${hint}` : ""));
+                }
+            }
+            return paths.join(", ");
+        },
+    };
+}
+
+/**
+ * Runs all the checks (not stopping at the first failure, so everything that needs fixing
+ * is reported in one go).
+ * @returns true if every check passed
+ */
+export async function runChecks(checks: IPreflightCheck[], logger: Logger): Promise<boolean> {
+    const failures: string[] = [];
+    for (const check of checks) {
+        try {
+            const result = await check.run();
+            console.log(`✅ ${check.name}: ${result}`);
+        } catch (e) {
+            console.log(`❌ ${check.name}: ${(e as Error).message}`);
+            failures.push(`${check.name}: ${(e as Error).message}`);
+        }
+    }
+
+    if (failures.length) {
+        logger.error(`Preflight checks failed:\n${failures.join("\n")}`);
+        return false;
+    }
+    logger.info(`All ${checks.length} preflight checks passed`);
+    return true;
+}
@@ -0,0 +1,67 @@
+/*
+Copyright 2022 New Vector Ltd
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { IRunner, IRunOptions } from "./runner";
+import { redact } from "./redact";
+
+/*
+ * In a dry run, nothing that changes the build dirs, packages.riot.im, the debian repo or the publish
+ * destinations is executed: each such step is printed as part of an ordered plan instead. The one
+ * thing we do for real is a shallow clone into a temporary directory, because the electron-builder
+ * config (and, for releases, the version) come from element-desktop's package.json.
+ */
+
+let dryRun = false;
+let stepNum = 0;
+
+export function setDryRun(enabled: boolean): void {
+    dryRun = enabled;
+}
+
+export function isDryRun(): boolean {
+    return dryRun;
+}
+
+export function recordStep(description: string, details?: string): void {
+    stepNum++;
+    console.log(redact(`[plan ${stepNum.toString().padStart(3)}] ${description}`));
+    if (details !== undefined) {
+        console.log(redact(details).split(/\r?\n/).map(line => "             | " + line).join("\n"));
+    }
+}
+
+/**
+ * An IRunner which records the commands it would have run rather than running them.
+ */
+export default class RecordingRunner implements IRunner {
+    constructor(
+        private readonly cwd: string,
+        private readonly description: string,
+    ) {}
+
+    public async setup(): Promise<void> {
+        recordStep(`Set up ${this.description} in ${this.cwd}`);
+    }
+
+    public async run(cmd: string, args: string[] = [], options: IRunOptions = {}): Promise<void> {
+        const timeout = options.timeout ? ` (timeout ${options.timeout / 1000 / 60} mins)` : "";
+        recordStep(`[${this.description}] ${[cmd, ...args].join(" ")}${timeout}`);
+    }
+
+    public async finish(): Promise<void> {
+        recordStep(`Collect the build output from ${this.description} into ${this.cwd}/dist`);
+    }
+}
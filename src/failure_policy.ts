@@ -0,0 +1,90 @@
+/*
+Copyright 2022 New Vector Ltd
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { IBuild } from "./build_history";
+import Schedule from "./schedule";
+
+/**
+ * What the nightly builder does when a target fails: retry it a few times the same day, backing off
+ * between them, then give it a rest. If it keeps failing day after day, shout about it.
+ */
+export interface IFailurePolicy {
+    // How many times a failed target is retried on the day it failed, on top of its scheduled builds
+    retriesPerDay: number;
+    // Minutes to wait before the first retry, doubling for each one after that
+    backoff: number;
+    // Minutes to wait, at least, once the retries have run out
+    coolOff: number;
+    // How many days in a row a target has to fail for before it's escalated to the room
+    escalateAfterDays: number;
+}
+
+export const DEFAULT_FAILURE_POLICY: IFailurePolicy = {
+    retriesPerDay: 2,
+    backoff: 30,
+    coolOff: 4 * 60,
+    escalateAfterDays: 3,
+};
+
+const MINUTE_MS = 60 * 1000;
+
+function isSameDay(a: number, b: number): boolean {
+    return new Date(a).toDateString() === new Date(b).toDateString();
+}
+
+/**
+ * Updates the target's build record for a failure, returning whether the target has now failed
+ * enough days in a row to be escalated: that's only true once per day.
+ */
+export function recordFailure(build: IBuild, policy: IFailurePolicy, now = Date.now()): boolean {
+    const failingSince = build.failTime !== undefined && build.failTime > build.time;
+    const sameDay = failingSince && isSameDay(build.failTime!, now);
+
+    build.failuresToday = sameDay ? (build.failuresToday ?? 0) + 1 : 1;
+    if (!failingSince) {
+        build.failedDays = 1;
+    } else if (!sameDay) {
+        build.failedDays = (build.failedDays ?? 0) + 1;
+    }
+    build.failTime = now;
+
+    return !sameDay && build.failedDays! >= policy.escalateAfterDays;
+}
+
+export function recordSuccess(build: IBuild): void {
+    build.failuresToday = 0;
+    build.failedDays = 0;
+}
+
+/**
+ * When the target is next due to be built: at the next time its schedule fires, unless it's failed
+ * since, when it's retried after its backoff, or left until at least the end of its cool off once
+ * it's been retried enough for one day.
+ */
+export function getNextDue(build: IBuild, schedule: Schedule, policy: IFailurePolicy): Date | undefined {
+    const failTime = build.failTime ?? 0;
+    const scheduled = schedule.next(new Date(Math.max(build.time, failTime, build.skipTime ?? 0)));
+    if (failTime <= build.time) return scheduled;
+
+    const failures = build.failuresToday ?? 1;
+    if (failures <= policy.retriesPerDay) {
+        const retry = new Date(failTime + policy.backoff * Math.pow(2, failures - 1) * MINUTE_MS);
+        return scheduled && scheduled < retry ? scheduled : retry;
+    }
+
+    const coolOff = new Date(failTime + policy.coolOff * MINUTE_MS);
+    return scheduled && scheduled > coolOff ? scheduled : coolOff;
+}
@@ -15,14 +15,32 @@ limitations under the License.
 */
 
 import * as childProcess from 'child_process';
+import * as fs from 'fs';
+
+export const DEFAULT_MIRROR_DIR = "element-desktop.git";
+
+export interface IMirrorOptions {
+    enabled?: boolean;
+    dir?: string;
+}
+
+export interface ICommit {
+    sha: string;
+    author: string;
+    subject: string;
+}
 
 export default class GitRepo {
     constructor(
         private path: string,
     ) { }
 
-    public fetch(): Promise<string> {
-        return this.gitCmd('fetch');
+    public fetch(...args: string[]): Promise<string> {
+        return this.gitCmd('fetch', ...args);
+    }
+
+    public checkout(...args: string[]): Promise<string> {
+        return this.gitCmd('checkout', ...args);
     }
 
     public clone(...args: string[]): Promise<string> {
@@ -37,6 +55,85 @@ export default class GitRepo {
         });
     }
 
+    /**
+     * Makes this a bare mirror of the given repo, or brings it up to date if it already is one.
+     */
+    public async mirror(url: string): Promise<void> {
+        if (!fs.existsSync(this.path)) {
+            await this.clone('--mirror', url, this.path);
+            return;
+        }
+        await this.gitCmd('remote', 'set-url', 'origin', url);
+        await this.gitCmd('remote', 'update', '--prune');
+    }
+
+    /**
+     * The commits in the given range (eg. from..to), newest first, leaving out merges.
+     */
+    public async getLog(range: string): Promise<ICommit[]> {
+        const out = await this.gitCmd('log', '--no-merges', '--format=%H%x00%an%x00%s', range);
+        return out.split("\n").filter(line => line).map(line => {
+            const [sha, author, subject] = line.split("\0");
+            return { sha, author, subject };
+        });
+    }
+
+    // The type of object a ref points to: "tag" for an annotated tag, "commit" for a lightweight one
+    public getObjectType(ref: string): Promise<string> {
+        return this.gitCmd('cat-file', '-t', ref);
+    }
+
+    /**
+     * Checks the signature of an annotated tag against the keys in the given gpg homedir, resolving
+     * to gpg's machine readable status output and rejecting with its complaints if it's not valid.
+     */
+    public verifyTag(tag: string, gnupgHome: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            childProcess.execFile('git', ['verify-tag', '--raw', tag], {
+                cwd: this.path,
+                env: { ...process.env, GNUPGHOME: gnupgHome },
+            }, (err, stdout, stderr) => {
+                if (err) {
+                    reject(new Error(stderr.trim() || err.message));
+                } else {
+                    resolve(stderr.trim());
+                }
+            });
+        });
+    }
+
+    // The branch that's checked out, or HEAD if none is
+    public getCurrentBranch(): Promise<string> {
+        return this.gitCmd('rev-parse', '--abbrev-ref', 'HEAD');
+    }
+
+    // The commit that's checked out
+    public getHeadSha(): Promise<string> {
+        return this.gitCmd('rev-parse', 'HEAD');
+    }
+
+    /**
+     * The commit a branch or tag of a remote repo points to, without cloning it.
+     */
+    public static resolveRemote(url: string, ref: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            childProcess.execFile('git', ['ls-remote', url, ref], {}, (err, stdout) => {
+                if (err) {
+                    reject(err);
+                    return;
+                }
+                // Annotated tags come with a peeled ref (ending ^{}) for the commit itself: prefer that
+                const lines = stdout.trim().split("\n").filter(line => line);
+                const line = lines.find(l => l.endsWith("^{}")) ?? lines[0];
+                if (!line) {
+                    reject(new Error(`No ref ${ref} in ${url}`));
+                } else {
+                    resolve(line.split(/\s+/)[0]);
+                }
+            });
+        });
+    }
+
     private gitCmd(cmd: string, ...args: string[]): Promise<string> {
         return new Promise((resolve, reject) => {
             childProcess.execFile('git', [cmd, ...args], {
@@ -16,44 +16,41 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 
-import { Target, TargetId, TARGETS } from 'element-desktop/scripts/hak/target';
+import { TargetId, TARGETS } from 'element-desktop/scripts/hak/target';
 import yargs from "yargs";
-import path from "path";
-import fs from "fs";
+import { hideBin } from "yargs/helpers";
 
 import logger from './logger';
 import DesktopDevelopBuilder from './desktop_develop';
 import DesktopReleaseBuilder from './desktop_release';
-import DesktopBuilder, { Options } from "./desktop_builder";
+import DesktopPreviewBuilder, { getPreviewName } from './desktop_preview';
+import DesktopBuilder from "./desktop_builder";
+import { ConfigError, DEFAULT_CONFIG_FILE, getOptions, IConfig, loadConfig } from "./config";
+import { notifyStopping } from "./supervisor";
+import { PreflightError } from "./doctor";
+import Lock, { describeLock, LockHeldError, LockScope } from "./lock";
+import { getStatus, printStatus } from "./status";
+import { printSchedule } from "./schedule";
+import { setDryRun } from "./dry_run";
+import { registerSecret } from "./redact";
 
-if (process.env.RIOTBUILD_BASEURL && process.env.RIOTBUILD_ROOMID && process.env.RIOTBUILD_ACCESS_TOKEN) {
-    console.log("Logging to console + Matrix");
-    logger.setup(process.env.RIOTBUILD_BASEURL, process.env.RIOTBUILD_ROOMID, process.env.RIOTBUILD_ACCESS_TOKEN);
-} else {
-    console.log("No Matrix credentials in environment: logging to console only");
-}
-
-const winVmName = process.env.RIOTBUILD_WIN_VMNAME;
-const winUsername = process.env.RIOTBUILD_WIN_USERNAME;
-const winPassword = process.env.RIOTBUILD_WIN_PASSWORD;
-
-const rsyncServer = process.env.RIOTBUILD_RSYNC_ROOT;
-const s3Bucket = process.env.RIOTBUILD_S3_BUCKET;
-const s3EndpointUrl = process.env.RIOTBUILD_S3_ENDPOINT_URL;
-
-if (
-    winVmName === undefined ||
-    winUsername === undefined ||
-    winPassword === undefined
-) {
-    console.error(
-        "No windows credentials set: define RIOTBUILD_WIN_VMNAME, " +
-        "RIOTBUILD_WIN_USERNAME and RIOTBUILD_WIN_PASSWORD",
-    );
-    process.exit(1);
-}
-
-const args = yargs(process.argv).version(false).options({
+const args = yargs(hideBin(process.argv)).version(false).command(
+    "status",
+    "Show the last results and next due time of the nightly builds",
+).command(
+    "schedule",
+    "Print when each target's nightly builds are next due",
+).command(
+    "doctor",
+    "Check the host has the tools & credentials needed to build the selected targets",
+).options({
+    "config": {
+        alias: "c",
+        type: "string",
+        description: `The config file to load, defaults to ${DEFAULT_CONFIG_FILE} if present`,
+        requiresArg: true,
+        demandOption: false,
+    },
     "version": {
         alias: "v",
         type: "string",
@@ -61,30 +58,29 @@ const args = yargs(process.argv).version(false).options({
         requiresArg: true,
         demandOption: false,
     },
+    "preview": {
+        type: "string",
+        description: "Build a preview of the given commit (full SHA) or pull request (refs/pull/<N>/head)",
+        conflicts: ["version"],
+        requiresArg: true,
+        demandOption: false,
+    },
     "force": {
         alias: "f",
         type: "boolean",
         description: "Force a build, currently only supported for Nightlies," +
             "creates a new one with an incremented version",
-        conflicts: ["version"],
+        conflicts: ["version", "preview"],
         requiresArg: false,
         demandOption: false,
     },
     "targets": {
         alias: "t",
         type: "array",
-        description: "The list of targets to build, in rust platform id format",
+        description: "The list of targets to build, in rust platform id format, overrides the config file",
         choices: Object.keys(TARGETS),
         requiresArg: true,
         demandOption: false,
-        default: [
-            // The set of targets we build by default, sorted by increasing complexity so
-            // that we fail fast when the native host target fails.
-            'universal-apple-darwin',
-            'x86_64-unknown-linux-gnu',
-            'x86_64-pc-windows-msvc',
-            'i686-pc-windows-msvc',
-        ],
     },
     "debian-version": {
         type: "string",
@@ -94,8 +90,7 @@ const args = yargs(process.argv).version(false).options({
     },
     "git-repo": {
         type: "string",
-        description: "The git URL to clone element-desktop from",
-        default: "https://github.com/vector-im/element-desktop.git",
+        description: "The git URL to clone element-desktop from, overrides the config file",
         requiresArg: true,
         demandOption: false,
     },
@@ -110,52 +105,210 @@ const args = yargs(process.argv).version(false).options({
         description: "Just synchronise artifacts",
         requiresArg: false,
         demandOption: false,
-        conflicts: ["version", "force", "debian-version", "skip-sync"],
+        conflicts: ["version", "preview", "force", "debian-version", "skip-sync"],
+    },
+    "resume": {
+        type: "string",
+        description: "Carry on with the last, failed, build of the given target from the step that failed",
+        choices: Object.keys(TARGETS),
+        requiresArg: true,
+        demandOption: false,
+        conflicts: ["sync-only"],
+    },
+    "json": {
+        type: "boolean",
+        description: "Output status as JSON",
+        requiresArg: false,
+        demandOption: false,
+    },
+    "count": {
+        type: "number",
+        description: "How many of each target's upcoming builds 'schedule' prints",
+        default: 5,
+        requiresArg: true,
+    },
+    "force-unlock": {
+        type: "boolean",
+        description: "Print who holds the builder's locks and remove them, then exit",
+        requiresArg: false,
+        demandOption: false,
+    },
+    "dry-run": {
+        alias: "n",
+        type: "boolean",
+        description: "Print the plan of everything the build would do without doing it",
+        requiresArg: false,
+        demandOption: false,
+    },
+    "non-interactive": {
+        alias: "daemon",
+        type: "boolean",
+        description: "Don't wait for a keypress before starting, for running under a process supervisor",
+        requiresArg: false,
+        demandOption: false,
     },
 }).parseSync();
 
-if (rsyncServer === undefined) {
-    console.warn("rsync server not set: define RIOTBUILD_RSYNC_ROOT");
+let config: IConfig;
+try {
+    config = loadConfig(args.config, {
+        targets: args.targets as string[] | undefined,
+        gitRepo: args.gitRepo,
+        debianVersion: args.debianVersion,
+        skipSync: args.skipSync,
+    });
+} catch (e) {
+    if (e instanceof ConfigError) {
+        console.error(e.message);
+        process.exit(1);
+    }
+    throw e;
 }
-if (s3Bucket === undefined) {
-    console.warn("S3 bucket not set: define RIOTBUILD_S3_BUCKET");
+
+registerSecret(config.windows?.password);
+registerSecret(config.matrix?.accessToken);
+registerSecret(config.api?.token);
+registerSecret(config.api?.webhookSecret);
+registerSecret(process.env.BUILDKITE_API_KEY);
+registerSecret(process.env.AWS_SECRET_ACCESS_KEY);
+
+async function showStatus(): Promise<void> {
+    const status = await getStatus(config.targets.map(target => TARGETS[target]), config.schedules, config.failures);
+    if (args.json) {
+        console.log(JSON.stringify(status, null, 4));
+    } else {
+        printStatus(status);
+    }
 }
-if (rsyncServer === undefined && s3Bucket === undefined && args.syncOnly) {
-    console.error("Cannot sync packages due to warnings above.");
-    process.exit(1);
+
+function makeBuilder(): DesktopBuilder {
+    const resume = args.resume as TargetId | undefined;
+    if (args.version) {
+        return new DesktopReleaseBuilder({ ...getOptions(config, "release"), resume }, args.version);
+    } else if (args.preview) {
+        return new DesktopPreviewBuilder({ ...getOptions(config, "preview"), resume }, args.preview);
+    } else {
+        return new DesktopDevelopBuilder({ ...getOptions(config, "develop"), resume }, args.force);
+    }
 }
 
-const lockFile = path.join(process.cwd(), "element-builder.lock");
-if (fs.existsSync(lockFile)) {
-    console.error("Lock file found, other instance likely already running!");
-    process.exit(1);
+async function doctor(): Promise<void> {
+    const ok = await makeBuilder().doctor(logger);
+    process.exit(ok ? 0 : 1);
 }
-process.on("exit", () => {
-    fs.rmSync(lockFile);
-});
-fs.writeFileSync(lockFile, process.pid?.toString());
-
-const options: Options = {
-    targets: args.targets.map(target => TARGETS[target as TargetId]) as Target[],
-    debianVersion: args.debianVersion,
-    winVmName,
-    winUsername,
-    winPassword,
-    rsyncRoot: args.skipSync ? undefined : rsyncServer,
-    s3Bucket: args.skipSync ? undefined : s3Bucket,
-    s3EndpointUrl,
-    gitRepo: args.gitRepo,
-};
-
-let builder: DesktopBuilder;
-if (args.version) {
-    builder = new DesktopReleaseBuilder(options, args.version);
-} else {
-    builder = new DesktopDevelopBuilder(options, args.force);
+
+function forceUnlock(): void {
+    for (const scope of ["build", "publish"] as LockScope[]) {
+        const holder = Lock.forceUnlock(scope);
+        console.log(holder ? `Removed ${scope} lock held by the ${describeLock(holder)}` : `No ${scope} lock held`);
+    }
+    process.exit(0);
+}
+
+function runBuilder(): void {
+    if (args.dryRun) {
+        console.log("Dry run: printing the build plan, nothing will be built or published");
+        setDryRun(true);
+    } else if (config.matrix) {
+        console.log("Logging to console + Matrix");
+        logger.setup(config.matrix.baseUrl, config.matrix.roomId, config.matrix.accessToken);
+    } else {
+        console.log("No Matrix credentials configured: logging to console only");
+    }
+
+    if (args.preview && !getPreviewName(args.preview)) {
+        console.error(`Cannot build a preview of ${args.preview}: expected a full commit SHA or refs/pull/<N>/head`);
+        process.exit(1);
+    }
+
+    if (args.resume && !config.targets.includes(args.resume as TargetId)) {
+        console.error(`Cannot resume ${args.resume}: it isn't one of the targets being built`);
+        process.exit(1);
+    }
+
+    const hasWindowsTargets = config.targets.some(target => TARGETS[target].platform === "win32");
+    if (config.windows === undefined && hasWindowsTargets) {
+        console.error(
+            "No windows credentials set: define windows.vmName, windows.username and windows.password " +
+            "in the config file or RIOTBUILD_WIN_VMNAME, RIOTBUILD_WIN_USERNAME and RIOTBUILD_WIN_PASSWORD",
+        );
+        process.exit(1);
+    }
+
+    if (config.publish.rsyncRoot === undefined && !args.skipSync) {
+        console.warn("rsync server not set: define publish.rsyncRoot or RIOTBUILD_RSYNC_ROOT");
+    }
+    if (config.publish.s3Bucket === undefined && !args.skipSync) {
+        console.warn("S3 bucket not set: define publish.s3Bucket or RIOTBUILD_S3_BUCKET");
+    }
+    if (config.publish.rsyncRoot === undefined && config.publish.s3Bucket === undefined && args.syncOnly) {
+        console.error("Cannot sync packages due to warnings above.");
+        process.exit(1);
+    }
+
+    // A sync-only run doesn't build anything: it just waits for the publish lock when syncing
+    if (!args.syncOnly && !args.dryRun) {
+        const lock = new Lock("build", args.version ? "release" : args.preview ? "preview" : "nightly");
+        try {
+            lock.acquire();
+        } catch (e) {
+            if (e instanceof LockHeldError) {
+                console.error(`${e.message}: other instance likely already running!`);
+                console.error("If it isn't, use --force-unlock to remove the lock.");
+                process.exit(1);
+            }
+            throw e;
+        }
+        process.on("exit", () => {
+            lock.release();
+        });
+    }
+
+    const builder = makeBuilder();
+
+    // The first signal lets the current build finish, a second one aborts it. Either way we exit via
+    // process.exit() so that the lock file gets removed.
+    let stopRequested = false;
+    const onSignal = async (signal: NodeJS.Signals): Promise<void> => {
+        const abort = stopRequested;
+        stopRequested = true;
+        await notifyStopping();
+        if (abort) {
+            console.log(`Received ${signal} again: aborting current build`);
+        } else {
+            console.log(`Received ${signal}: finishing current build then exiting, send again to abort`);
+        }
+
+        try {
+            await builder.stop(abort);
+        } finally {
+            process.exit(abort ? 1 : 0);
+        }
+    };
+    process.on("SIGTERM", onSignal);
+    process.on("SIGINT", onSignal);
+
+    if (args.syncOnly) {
+        builder.syncArtifacts(logger, "sync-only");
+    } else {
+        builder.start(!args.nonInteractive && !args.dryRun).catch(e => {
+            if (!(e instanceof PreflightError)) throw e;
+            // Not process.exit(), so that the failures still get sent to Matrix
+            console.error(e.message);
+            process.exitCode = 1;
+        });
+    }
 }
 
-if (args.syncOnly) {
-    builder.syncArtifacts(logger);
+if (args._[0] === "status") {
+    showStatus();
+} else if (args._[0] === "schedule") {
+    printSchedule(config.targets.map(target => TARGETS[target]), config.schedules, args.count);
+} else if (args._[0] === "doctor") {
+    doctor();
+} else if (args.forceUnlock) {
+    // Before any of the checks for building, which don't matter to unlocking
+    forceUnlock();
 } else {
-    builder.start();
+    runBuilder();
 }
@@ -0,0 +1,218 @@
+/*
+Copyright 2022 New Vector Ltd
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { Logger } from "./logger";
+
+export type LockMode = "nightly" | "release" | "preview" | "sync-only";
+
+/*
+ * A build holds the "build" scope for its whole run and additionally takes the "publish" scope
+ * while it pushes artifacts, so a --sync-only run can wait for just the publish step rather
+ * than for the whole build.
+ */
+export type LockScope = "build" | "publish";
+
+export interface ILockInfo {
+    pid: number;
+    hostname: string;
+    mode: LockMode;
+    startTime: number;
+}
+
+const LOCK_FILES: Record<LockScope, string> = {
+    build: "element-builder.lock",
+    publish: "element-builder-publish.lock",
+};
+
+export function describeLock(info: ILockInfo): string {
+    return `${info.mode} builder, pid ${info.pid} on ${info.hostname}, since ${new Date(info.startTime).toISOString()}`;
+}
+
+export class LockHeldError extends Error {
+    constructor(public readonly scope: LockScope, public readonly holder: ILockInfo) {
+        super(`The ${scope} lock is held by the ${describeLock(holder)}`);
+    }
+}
+
+// Whether the process that wrote the lock has gone away. We can only tell for our own host:
+// a lock from another host (eg. over a shared filesystem) is always considered live.
+export function isStale(info: ILockInfo): boolean {
+    if (info.hostname !== os.hostname()) return false;
+    // A lock file too mangled to have a pid in it can't be anyone's
+    if (!Number.isInteger(info.pid) || info.pid <= 0) return true;
+    try {
+        process.kill(info.pid, 0);
+        return false;
+    } catch (e) {
+        // EPERM means it exists but belongs to someone else
+        return (e as NodeJS.ErrnoException).code === "ESRCH";
+    }
+}
+
+function parseLock(contents: string): ILockInfo {
+    try {
+        return JSON.parse(contents);
+    } catch (e) {
+        // Lock files from older versions of the builder just contain the pid
+        return {
+            pid: parseInt(contents, 10),
+            hostname: os.hostname(),
+            mode: "nightly",
+            startTime: 0,
+        };
+    }
+}
+
+function readLockFile(file: string): string | undefined {
+    try {
+        return fs.readFileSync(file, 'utf8');
+    } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+        throw e;
+    }
+}
+
+export default class Lock {
+    private held = false;
+
+    constructor(
+        private readonly scope: LockScope,
+        private readonly mode: LockMode,
+        private readonly dir = process.cwd(),
+    ) {}
+
+    private get file(): string {
+        return path.join(this.dir, LOCK_FILES[this.scope]);
+    }
+
+    public static read(scope: LockScope, dir = process.cwd()): ILockInfo | undefined {
+        const contents = readLockFile(path.join(dir, LOCK_FILES[scope]));
+        return contents === undefined ? undefined : parseLock(contents);
+    }
+
+    /**
+     * Removes the lock regardless of who holds it.
+     * @returns the details of the holder, if the lock was held
+     */
+    public static forceUnlock(scope: LockScope, dir = process.cwd()): ILockInfo | undefined {
+        const holder = Lock.read(scope, dir);
+        if (holder) {
+            fs.rmSync(path.join(dir, LOCK_FILES[scope]), { force: true });
+        }
+        return holder;
+    }
+
+    /**
+     * Takes the lock, reclaiming it if its owner has died.
+     * @throws LockHeldError if another live process holds the lock
+     */
+    public acquire(logger?: Logger): void {
+        const info: ILockInfo = {
+            pid: process.pid,
+            hostname: os.hostname(),
+            mode: this.mode,
+            startTime: Date.now(),
+        };
+
+        try {
+            // 'wx' fails if the file exists, so two processes can't both think they got it
+            fs.writeFileSync(this.file, JSON.stringify(info), { flag: 'wx' });
+            this.held = true;
+            return;
+        } catch (e) {
+            if ((e as NodeJS.ErrnoException).code !== "EEXIST") throw e;
+        }
+
+        const contents = readLockFile(this.file);
+        // Released since, so try again
+        if (contents === undefined) return this.acquire(logger);
+        const holder = parseLock(contents);
+        if (!isStale(holder)) {
+            throw new LockHeldError(this.scope, holder);
+        }
+
+        const msg = `Reclaiming stale ${this.scope} lock from the ${describeLock(holder)}`;
+        logger ? logger.warn(msg) : console.warn(msg);
+        this.reclaim(contents);
+        this.acquire(logger);
+    }
+
+    /**
+     * Removes the lock file, which had the given contents when we decided it was stale. It's moved
+     * aside first, so if another process has reclaimed it & taken the lock in the meantime, we find
+     * out & put their lock back rather than removing it.
+     * @throws LockHeldError if the lock was taken afresh in the meantime
+     */
+    private reclaim(staleContents: string): void {
+        const aside = `${this.file}.reclaim-${process.pid}`;
+        try {
+            fs.renameSync(this.file, aside);
+        } catch (e) {
+            // someone else got to it first: whoever it was, the lock's up for grabs again
+            if ((e as NodeJS.ErrnoException).code === "ENOENT") return;
+            throw e;
+        }
+
+        const contents = fs.readFileSync(aside, 'utf8');
+        if (contents !== staleContents) {
+            try {
+                // a link rather than a rename, so as not to replace a lock taken since
+                fs.linkSync(aside, this.file);
+            } catch (e) {
+                if ((e as NodeJS.ErrnoException).code !== "EEXIST") throw e;
+            }
+            fs.rmSync(aside, { force: true });
+            throw new LockHeldError(this.scope, parseLock(contents));
+        }
+        fs.rmSync(aside, { force: true });
+    }
+
+    /**
+     * Like acquire, but waits for a live holder to release the lock rather than failing.
+     */
+    public async waitFor(logger?: Logger, pollInterval = 30 * 1000): Promise<void> {
+        let waiting = false;
+        for (;;) {
+            try {
+                this.acquire(logger);
+                return;
+            } catch (e) {
+                if (!(e instanceof LockHeldError)) throw e;
+                if (!waiting) {
+                    const msg = `Waiting for the ${this.scope} lock held by the ${describeLock(e.holder)}`;
+                    logger ? logger.info(msg) : console.log(msg);
+                    waiting = true;
+                }
+            }
+            await new Promise(resolve => setTimeout(resolve, pollInterval));
+        }
+    }
+
+    public release(): void {
+        if (!this.held) return;
+        this.held = false;
+
+        // Don't remove a lock that someone else has reclaimed from us
+        const holder = Lock.read(this.scope, this.dir);
+        if (holder?.pid === process.pid && holder.hostname === os.hostname()) {
+            fs.rmSync(this.file, { force: true });
+        }
+    }
+}
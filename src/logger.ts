@@ -17,6 +17,10 @@ limitations under the License.
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
 import * as https from 'https';
+import * as util from 'util';
+
+import BuildLog from "./build_log";
+import { redact } from "./redact";
 
 type Level = 'error' | 'warn' | 'info' | 'debug';
 
@@ -26,6 +30,7 @@ export class Logger {
     protected mxRoomId?: string;
     private eventIdPromise = Promise.resolve("");
     private context = new MatrixLogContext(this.eventIdPromise);
+    private buildLog?: BuildLog;
 
     public setup(matrixServer: string, roomId: string, accessToken: string): void {
         this.baseUrl = matrixServer;
@@ -49,21 +54,43 @@ export class Logger {
         this.log('debug', ...args);
     }
 
+    /**
+     * Logs the text at info level, but sends the HTML version of it to Matrix.
+     */
+    public html(text: string, html: string): void {
+        const msg = redact(text);
+        console.info(msg);
+        this.buildLog?.write(`INFO: ${msg}\n`);
+
+        if (this.baseUrl === undefined) return;
+        this.sendEvent(() => this.context.getContent({
+            msgtype: 'm.notice',
+            body: msg,
+            format: "org.matrix.custom.html",
+            formatted_body: redact(html),
+        }), this.context.type);
+    }
+
     public async file(log: string): Promise<void> {
-        return; // XXX for now disable the file logger due to potential for leaks
-        const response = await this.request(
-            `${this.baseUrl}/_matrix/media/v3/upload`,
-            "POST",
-            "text/plain",
-            new Buffer(log),
-        );
-        const url = JSON.parse(response).content_uri;
-
-        await this.sendEvent(() => this.context.getContent({
-            msgtype: "m.file",
-            body: "log.txt",
-            url,
-        }));
+        if (this.baseUrl === undefined) return;
+
+        try {
+            const response = await this.request(
+                `${this.baseUrl}/_matrix/media/v3/upload`,
+                "POST",
+                "text/plain",
+                Buffer.from(redact(log)),
+            );
+            const url = JSON.parse(response).content_uri;
+
+            await this.sendEvent(() => this.context.getContent({
+                msgtype: "m.file",
+                body: "log.txt",
+                url,
+            }));
+        } catch (e) {
+            console.error("Failed to upload log file", e);
+        }
     }
 
     protected getContent(body: string): object {
@@ -114,24 +141,42 @@ export class Logger {
         return prom;
     }
 
+    /**
+     * Output from a command run as part of the build: this only goes to the build log, if there is one.
+     */
+    public output(text: string): void {
+        this.buildLog?.write(redact(text));
+    }
+
     protected async log(level: Level, ...args: any[]): Promise<string | void> {
-        console[level](...args);
+        const msg = redact(util.format(...args));
+        console[level](msg);
+        this.buildLog?.write(`${level.toUpperCase()}: ${msg}\n`);
 
         if (this.baseUrl === undefined) return;
 
         // log to matrix in the simplest possible way: If it fails, forget it, and we lose the log message,
         // and we wait while it completes, so if the server is slow, the build goes slower.
-        return this.sendEvent(() => this.getContent(args[0]), this.context.type);
+        const body = typeof args[0] === "string" ? redact(args[0]) : args[0];
+        return this.sendEvent(() => this.getContent(body), this.context.type);
     }
 
     private clone(context = this.context): Logger {
         const logger = new Logger();
         logger.context = context;
+        logger.buildLog = this.buildLog;
         logger.eventIdPromise = logger.context.ready().then(() => "");
         logger.setup(this.baseUrl!, this.mxRoomId!, this.mxAccessToken!);
         return logger;
     }
 
+    // Grab a new logger which also writes everything to the given build log
+    public withBuildLog(buildLog: BuildLog): Logger {
+        const logger = this.clone();
+        logger.buildLog = buildLog;
+        return logger;
+    }
+
     // Grab a new logger with a context to a thread around the latest event which was sent
     public threadLogger(): Logger {
         return this.clone(new ThreadLogContext(this.eventIdPromise));
@@ -233,8 +278,25 @@ class ReactionLogContext extends MatrixLogContext {
 }
 
 export class LoggableError extends Error {
-    constructor(public readonly code: number, public readonly log: string) {
+    public readonly log: string;
+
+    constructor(public readonly code: number, log: string) {
         super(code.toString());
+        this.log = redact(log);
+    }
+}
+
+export class TimeoutError extends LoggableError {
+    constructor(public readonly timeout: number, log: string) {
+        super(-1, log);
+        this.message = `Timed out after ${Math.round(timeout / 1000)}s`;
+    }
+}
+
+export class AbortedError extends LoggableError {
+    constructor(log: string) {
+        super(-1, log);
+        this.message = "Aborted";
     }
 }
 
@@ -0,0 +1,258 @@
+/*
+Copyright 2022 New Vector Ltd
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { Target, UniversalTarget } from "element-desktop/scripts/hak/target";
+
+import { Logger } from "./logger";
+import { ELECTRON_BUILDER_CFG_FILE, StepName } from "./desktop_builder";
+import { CACHED_DIRS, CachedDir } from "./dep_cache";
+
+/**
+ * What a step needs to know to work out its commands.
+ */
+export interface IStepContext {
+    target: Target;
+    gitBranch: string;
+    fetchArgs: string[];
+    // The name of the dir the repo is checked out to, which the Windows VM uses too
+    buildDirName: string;
+    // The commit checked out for the rest of the build, which the Windows VM should build too
+    gitSha?: string;
+    // The dirs the Windows VM should copy back for the dependency cache
+    saveDirs: CachedDir[];
+}
+
+export interface IPipelineStep {
+    name: string;
+    // Whose timeout & retry policy applies when run on a local runner. On Windows all the
+    // steps run in one script, which has the windowsScript timeout.
+    kind: StepName;
+    // The platforms the step runs on, or all if not given
+    platforms?: NodeJS.Platform[];
+    // Further conditions on the target, eg. universal builds
+    when?: (target: Target) => boolean;
+    // Each command as [cmd, ...args]
+    commands(ctx: IStepContext): string[][];
+}
+
+const isUniversal = (target: Target) => target.arch === "universal";
+
+// The targets to build the native modules for: universal builds are made of several
+function nativeTargets(target: Target): Target[] {
+    return isUniversal(target) ? (target as UniversalTarget).subtargets : [target];
+}
+
+const DEFAULT_STEPS: IPipelineStep[] = [{
+    // The Windows VM can't build on the shared drive, so it has its own checkout. It's cloned from the
+    // host's checkout, which is the build dir on z:, rather than all the way from GitHub. The git mirror
+    // isn't shared with the VM, but the host's checkout was cloned from it anyway.
+    name: "checkout",
+    kind: "install",
+    platforms: ["win32"],
+    commands: ({ gitBranch, gitSha, buildDirName }) => [
+        ["rd", buildDirName, "/s", "/q"],
+        // The branch, or for releases the tag, eg. v1.6.0
+        ["git", "clone", "--no-local", "z:\\", buildDirName, "-b", gitBranch],
+        ["cd", buildDirName],
+        ...(gitSha ? [["git", "checkout", "--detach", gitSha]] : []),
+        ["copy", "z:\\" + ELECTRON_BUILDER_CFG_FILE, ELECTRON_BUILDER_CFG_FILE],
+        // Whatever the dependency cache had
+        ...CACHED_DIRS.map(dir => ["if", "exist", "z:\\" + dir, "xcopy", "z:\\" + dir, dir, "/S", "/I", "/Y", "/Q"]),
+    ],
+}, {
+    name: "install",
+    kind: "install",
+    commands: () => [["yarn", "install"]],
+}, {
+    name: "hakCheck",
+    kind: "nativeBuild",
+    commands: ({ target }) => nativeTargets(target).map(t => ["yarn", "run", "hak", "check", "--target", t.id]),
+}, {
+    name: "buildNative",
+    kind: "nativeBuild",
+    commands: ({ target }) => nativeTargets(target).map(t => ["yarn", "run", "build:native", "--target", t.id]),
+}, {
+    name: "hakCopy",
+    kind: "nativeBuild",
+    when: isUniversal,
+    commands: ({ target }) => [
+        ["yarn", "run", "hak", "copy", ...nativeTargets(target).flatMap(t => ["--target", t.id])],
+    ],
+}, {
+    name: "fetch",
+    kind: "fetch",
+    commands: ({ target, fetchArgs }) => [[
+        "yarn", "run", "fetch",
+        ...(target.platform === "win32" ? fetchArgs.map(a => a.replace(/\//g, "\\")) : fetchArgs),
+    ]],
+}, {
+    name: "package",
+    kind: "package",
+    commands: ({ target }) => [["yarn", "build", `--${target.arch}`, "--config", ELECTRON_BUILDER_CFG_FILE]],
+}, {
+    // Bring the output back to the shared drive & tidy up after ourselves
+    name: "collect",
+    kind: "package",
+    platforms: ["win32"],
+    commands: ({ buildDirName, saveDirs }) => [
+        ["xcopy", "dist", "z:\\dist", "/S", "/I", "/Y"],
+        ...saveDirs.map(dir => ["xcopy", dir, "z:\\" + dir, "/S", "/I", "/Y", "/Q"]),
+        ["cd", ".."],
+        ["rd", buildDirName, "/s", "/q"],
+    ],
+}];
+
+/**
+ * The ordered steps that make up a build of a target. Pipelines are immutable: channels derive
+ * their own from the default one by adding or replacing steps.
+ */
+export default class Pipeline {
+    public static readonly DEFAULT = new Pipeline(DEFAULT_STEPS);
+
+    private constructor(public readonly steps: readonly IPipelineStep[]) {}
+
+    private indexOf(name: string): number {
+        const i = this.steps.findIndex(step => step.name === name);
+        if (i === -1) throw new Error(`No step named ${name} in the pipeline`);
+        return i;
+    }
+
+    public withStepAfter(name: string, step: IPipelineStep): Pipeline {
+        const steps = [...this.steps];
+        steps.splice(this.indexOf(name) + 1, 0, step);
+        return new Pipeline(steps);
+    }
+
+    public withStepBefore(name: string, step: IPipelineStep): Pipeline {
+        const steps = [...this.steps];
+        steps.splice(this.indexOf(name), 0, step);
+        return new Pipeline(steps);
+    }
+
+    public withStepReplaced(step: IPipelineStep): Pipeline {
+        const steps = [...this.steps];
+        steps[this.indexOf(step.name)] = step;
+        return new Pipeline(steps);
+    }
+
+    public withoutStep(name: string): Pipeline {
+        const steps = [...this.steps];
+        steps.splice(this.indexOf(name), 1);
+        return new Pipeline(steps);
+    }
+
+    // The steps which apply to the given target, in order
+    public stepsFor(target: Target): IPipelineStep[] {
+        return this.steps.filter(step => (
+            (!step.platforms || step.platforms.includes(target.platform)) &&
+            (!step.when || step.when(target))
+        ));
+    }
+}
+
+export type StepStatus = "pending" | "running" | "succeeded" | "failed" | "skipped";
+
+export interface IStepRecord {
+    name: string;
+    status: StepStatus;
+    start?: number;
+    end?: number;
+}
+
+// Written by the Windows script before each step so we can follow its progress
+const STEP_MARKER = "##element-builder-step";
+
+const STATUS_ICONS: Record<StepStatus, string> = {
+    pending: "⏭",
+    running: "⏳",
+    succeeded: "✅",
+    failed: "❌",
+    skipped: "⏩",
+};
+
+function formatDuration(ms: number): string {
+    const secs = Math.round(ms / 1000);
+    return secs >= 60 ? `${Math.floor(secs / 60)}m${(secs % 60).toString().padStart(2, "0")}s` : `${secs}s`;
+}
+
+/**
+ * Records when each step of one build started & ended, and how it went.
+ */
+export class PipelineRun {
+    public readonly records: IStepRecord[];
+    private current?: IStepRecord;
+    private partialLine = "";
+
+    constructor(public readonly steps: IPipelineStep[]) {
+        this.records = steps.map(step => ({ name: step.name, status: "pending" }));
+    }
+
+    public begin(name: string): void {
+        if (this.current?.status === "running") this.end("succeeded");
+        this.current = this.records.find(record => record.name === name);
+        if (!this.current) return;
+        this.current.status = "running";
+        this.current.start = Date.now();
+    }
+
+    public end(status: "succeeded" | "failed"): void {
+        if (this.current?.status !== "running") return;
+        this.current.status = status;
+        this.current.end = Date.now();
+    }
+
+    // For steps that completed in an earlier, resumed, build
+    public skip(name: string): void {
+        const record = this.records.find(record => record.name === name);
+        if (record) record.status = "skipped";
+    }
+
+    public async runStep(name: string, fn: () => Promise<void>): Promise<void> {
+        this.begin(name);
+        try {
+            await fn();
+            this.end("succeeded");
+        } catch (e) {
+            this.end("failed");
+            throw e;
+        }
+    }
+
+    // The batch commands to mark the start of the given step in the Windows script's output
+    public static windowsMarker(name: string): string[] {
+        return ["echo", `${STEP_MARKER} ${name}`];
+    }
+
+    /**
+     * Follows the output of a Windows script with markers in it, to record the progress of its steps.
+     */
+    public onWindowsOutput = (text: string): void => {
+        const lines = (this.partialLine + text).split(/\r?\n/);
+        this.partialLine = lines.pop()!;
+        for (const line of lines) {
+            if (line.startsWith(STEP_MARKER + " ")) {
+                this.begin(line.slice(STEP_MARKER.length + 1).trim());
+            }
+        }
+    };
+
+    public report(logger: Logger): void {
+        logger.info("Steps: " + this.records.map(record => {
+            const duration = record.start ? ` ${formatDuration((record.end ?? Date.now()) - record.start)}` : "";
+            return `${STATUS_ICONS[record.status]} ${record.name}${duration}`;
+        }).join(", "));
+    }
+}
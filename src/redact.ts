@@ -0,0 +1,41 @@
+/*
+Copyright 2022 New Vector Ltd
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+/*
+ * Every secret the builder knows about gets registered here, and everything that leaves the
+ * process (console, Matrix, build logs, LoggableError logs) goes through redact() on the way.
+ */
+
+const REDACTED = "<redacted>";
+
+// Anything shorter is too likely to match innocent output
+const MIN_SECRET_LENGTH = 4;
+
+let secrets: string[] = [];
+
+export function registerSecret(value: string | undefined): void {
+    if (!value || value.length < MIN_SECRET_LENGTH || secrets.includes(value)) return;
+    secrets.push(value);
+    // Longest first, so a secret that contains another is redacted whole
+    secrets = secrets.sort((a, b) => b.length - a.length);
+}
+
+export function redact(text: string): string {
+    for (const secret of secrets) {
+        text = text.split(secret).join(REDACTED);
+    }
+    return text;
+}
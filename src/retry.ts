@@ -0,0 +1,92 @@
+/*
+Copyright 2022 New Vector Ltd
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { AbortedError, LoggableError, Logger, TimeoutError } from "./logger";
+
+export interface IRetryPolicy {
+    // Total number of attempts, including the first
+    attempts: number;
+    // Seconds to wait before the first retry, doubling for each one after that
+    delay: number;
+}
+
+const MAX_DELAY = 10 * 60;
+
+// Output that means the failure was something on the network rather than in the build itself
+const RETRYABLE_LOG_PATTERNS = [
+    /\bETIMEDOUT\b/,
+    /\bECONNRESET\b/,
+    /\bECONNREFUSED\b/,
+    /\bENOTFOUND\b/,
+    /\bEAI_AGAIN\b/,
+    /socket hang up/i,
+    /There appears to be trouble with your network connection/,
+    /Could not resolve host/,
+    /The remote end hung up unexpectedly/,
+    /RPC failed/,
+    /early EOF/,
+    // ssh & rsync to remote build hosts
+    /Connection (reset by peer|timed out|closed by remote host)/,
+    /kex_exchange_identification/,
+    /\b(502|503|504) (Bad Gateway|Service Unavailable|Gateway Time-?out)/i,
+];
+
+/**
+ * Whether a failed step is worth trying again.
+ */
+export function isRetryable(e: unknown): boolean {
+    // We were asked to stop
+    if (e instanceof AbortedError) return false;
+    // Most likely a hung network connection
+    if (e instanceof TimeoutError) return true;
+    // SIGKILLed, eg. by the OOM killer: it'll just get killed again
+    if (e instanceof LoggableError && e.code === 137) return false;
+
+    const log = e instanceof LoggableError ? e.log : (e as Error)?.message ?? String(e);
+    return RETRYABLE_LOG_PATTERNS.some(pattern => pattern.test(log));
+}
+
+function describeError(e: unknown): string {
+    if (e instanceof TimeoutError) return e.message;
+    if (e instanceof LoggableError) return `exit code ${e.code}`;
+    return (e as Error)?.message ?? String(e);
+}
+
+/**
+ * Calls fn until it succeeds, fails with an error that isn't worth retrying, or we run out of attempts.
+ * Each retry is reported to the given logger.
+ */
+export async function withRetries<T>(
+    description: string,
+    policy: IRetryPolicy,
+    logger: Logger,
+    fn: () => Promise<T>,
+): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await fn();
+        } catch (e) {
+            if (attempt >= policy.attempts || !isRetryable(e)) throw e;
+
+            const delay = Math.min(policy.delay * Math.pow(2, attempt - 1), MAX_DELAY);
+            logger.warn(
+                `⚠️ ${description} failed (attempt ${attempt} of ${policy.attempts}): ` +
+                `${describeError(e)}. Retrying in ${delay}s...`,
+            );
+            await new Promise(resolve => setTimeout(resolve, delay * 1000));
+        }
+    }
+}
@@ -15,11 +15,15 @@ limitations under the License.
 */
 
 import { Logger } from "./logger";
-import { spawn } from "./spawn";
+import { IRunOptions, spawn } from "./spawn";
+
+export { IRunOptions };
 
 export interface IRunner {
     setup(): Promise<void>;
-    run(cmd: string, ...args: string[]): Promise<void>;
+    run(cmd: string, args?: string[], options?: IRunOptions): Promise<void>;
+    // Called once the build has succeeded: after this the build output must be in dist/ in the repo dir
+    finish(): Promise<void>;
 }
 
 export default class Runner implements IRunner {
@@ -40,11 +44,17 @@ export default class Runner implements IRunner {
         // nothing to do
     }
 
-    public run(cmd: string, ...args: string[]): Promise<void> {
+    public async finish(): Promise<void> {
+        // nothing to do
+    }
+
+    public run(cmd: string, args: string[] = [], options: IRunOptions = {}): Promise<void> {
         this.logger.info([cmd, ...args].join(' '));
         return spawn(cmd, args, {
             cwd: this.cwd,
             env: this.env,
+            logger: this.logger,
+            ...options,
         });
     }
 }
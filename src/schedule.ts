@@ -0,0 +1,243 @@
+/*
+Copyright 2022 New Vector Ltd
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { Target, TargetId } from 'element-desktop/scripts/hak/target';
+
+// What the nightlies did before schedules were configurable: every morning at 8, host time
+export const DEFAULT_CRON = "0 8 * * *";
+
+/**
+ * When to build some targets: a standard 5 field cron expression (minute, hour, day of month, month,
+ * day of week), evaluated in the given IANA timezone, or the host's if there isn't one. A schedule
+ * without targets applies to every target that isn't in another one.
+ */
+export interface IScheduleConfig {
+    cron: string;
+    targets?: TargetId[];
+    timezone?: string;
+}
+
+const MONTHS = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const WEEKDAYS = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+// How far ahead to look for the next time a schedule fires: long enough for 29 February
+const MAX_SEARCH_MS = (4 * 366 + 1) * 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+export class ScheduleError extends Error {}
+
+interface IField {
+    values: Set<number>;
+    // Whether the field was anything other than '*' (or '*/n'), which matters for the days, see matchesDay()
+    restricted: boolean;
+}
+
+function parseValue(text: string, min: number, names?: string[]): number {
+    const nameIndex = names?.indexOf(text.toUpperCase()) ?? -1;
+    if (nameIndex !== -1) return nameIndex + min;
+    if (!/^\d+$/.test(text)) throw new ScheduleError(`'${text}' isn't a number`);
+    return parseInt(text);
+}
+
+function parseField(text: string, name: string, min: number, max: number, names?: string[]): IField {
+    const values = new Set<number>();
+    for (const part of text.split(",")) {
+        const [range, stepText, ...rest] = part.split("/");
+        const step = stepText === undefined ? 1 : parseValue(stepText, 0);
+        if (rest.length || step < 1) throw new ScheduleError(`invalid step in ${name} '${part}'`);
+
+        let start: number;
+        let end: number;
+        if (range === "*") {
+            [start, end] = [min, max];
+        } else {
+            const [startText, endText, ...more] = range.split("-");
+            if (more.length) throw new ScheduleError(`invalid range in ${name} '${part}'`);
+            start = parseValue(startText, min, names);
+            // A step without a range, eg. 5/15, goes up to the end
+            end = endText !== undefined ? parseValue(endText, min, names) : stepText !== undefined ? max : start;
+        }
+        if (start < min || end > max || start > end) {
+            throw new ScheduleError(`${name} '${part}' isn't within ${min}-${max}`);
+        }
+        for (let v = start; v <= end; v += step) values.add(v);
+    }
+    return { values, restricted: !text.startsWith("*") };
+}
+
+interface IWallTime {
+    month: number;
+    day: number;
+    weekday: number;
+    hour: number;
+    minute: number;
+}
+
+/**
+ * A cron expression in a timezone, which can say when it next fires.
+ */
+export default class Schedule {
+    private readonly minutes: IField;
+    private readonly hours: IField;
+    private readonly days: IField;
+    private readonly months: IField;
+    private readonly weekdays: IField;
+    private readonly format: Intl.DateTimeFormat;
+
+    constructor(public readonly cron: string, public readonly timezone?: string) {
+        const fields = cron.trim().split(/\s+/);
+        if (fields.length !== 5) {
+            throw new ScheduleError(`'${cron}' should have 5 fields: minute hour day-of-month month day-of-week`);
+        }
+        this.minutes = parseField(fields[0], "minute", 0, 59);
+        this.hours = parseField(fields[1], "hour", 0, 23);
+        this.days = parseField(fields[2], "day of month", 1, 31);
+        this.months = parseField(fields[3], "month", 1, 12, MONTHS);
+        // 7 is also Sunday
+        this.weekdays = parseField(fields[4], "day of week", 0, 7, WEEKDAYS);
+        if (this.weekdays.values.delete(7)) this.weekdays.values.add(0);
+
+        try {
+            this.format = new Intl.DateTimeFormat("en-US", {
+                timeZone: timezone,
+                hourCycle: "h23",
+                month: "numeric",
+                day: "numeric",
+                weekday: "short",
+                hour: "numeric",
+                minute: "numeric",
+            });
+        } catch (e) {
+            throw new ScheduleError(`unknown timezone '${timezone}'`);
+        }
+    }
+
+    public get description(): string {
+        return `${this.cron} (${this.timezone ?? "host time"})`;
+    }
+
+    private getWallTime(date: Date): IWallTime {
+        const parts = Object.fromEntries(this.format.formatToParts(date).map(part => [part.type, part.value]));
+        return {
+            month: parseInt(parts.month),
+            day: parseInt(parts.day),
+            weekday: WEEKDAYS.indexOf(parts.weekday.toUpperCase()),
+            hour: parseInt(parts.hour),
+            minute: parseInt(parts.minute),
+        };
+    }
+
+    // As in cron, if both the day of the month & of the week are given, either one will do
+    private matchesDay(wall: IWallTime): boolean {
+        const day = this.days.values.has(wall.day);
+        const weekday = this.weekdays.values.has(wall.weekday);
+        if (this.days.restricted && this.weekdays.restricted) return day || weekday;
+        return day && weekday;
+    }
+
+    /**
+     * The first time after the given one that the schedule fires, or undefined if it never does.
+     */
+    public next(after: Date): Date | undefined {
+        let time = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+        const end = time + MAX_SEARCH_MS;
+        while (time < end) {
+            const wall = this.getWallTime(new Date(time));
+            if (!this.months.values.has(wall.month) || !this.matchesDay(wall)) {
+                // Skip to the next day. If the clocks go back on the way, this lands on the same day
+                // again, and gets there with the next step.
+                time += ((24 - wall.hour) * 60 - wall.minute) * MINUTE_MS;
+            } else if (!this.hours.values.has(wall.hour)) {
+                time += (60 - wall.minute) * MINUTE_MS;
+            } else if (!this.minutes.values.has(wall.minute)) {
+                time += MINUTE_MS;
+            } else {
+                return new Date(time);
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * The next few times the schedule fires after the given one.
+     */
+    public upcoming(after: Date, count: number): Date[] {
+        const ret: Date[] = [];
+        let next = this.next(after);
+        while (next && ret.length < count) {
+            ret.push(next);
+            next = this.next(next);
+        }
+        return ret;
+    }
+
+    public formatTime(date: Date): string {
+        return date.toLocaleString("en-GB", {
+            timeZone: this.timezone,
+            weekday: "short",
+            day: "numeric",
+            month: "short",
+            year: "numeric",
+            hour: "2-digit",
+            minute: "2-digit",
+            timeZoneName: "short",
+        });
+    }
+
+    /**
+     * The schedule the target is built on: the first one listing it, else the first without any targets,
+     * else the default.
+     */
+    public static forTarget(target: Target, schedules: IScheduleConfig[] = []): Schedule {
+        const config = schedules.find(s => s.targets?.includes(target.id)) ??
+            schedules.find(s => !s.targets) ??
+            { cron: DEFAULT_CRON };
+        return new Schedule(config.cron, config.timezone);
+    }
+}
+
+/**
+ * Checks each schedule parses and ever fires, returning what's wrong with them.
+ */
+export function validateSchedules(schedules: IScheduleConfig[], path: string): string[] {
+    const errors: string[] = [];
+    schedules.forEach((config, i) => {
+        try {
+            const schedule = new Schedule(config.cron, config.timezone);
+            if (!schedule.next(new Date())) {
+                errors.push(`${path}[${i}]: '${config.cron}' never fires`);
+            }
+        } catch (e) {
+            if (!(e instanceof ScheduleError)) throw e;
+            errors.push(`${path}[${i}]: ${e.message}`);
+        }
+    });
+    return errors;
+}
+
+/**
+ * Prints when each target is next due to be built, to check a schedule before deploying it.
+ */
+export function printSchedule(targets: Target[], schedules: IScheduleConfig[] | undefined, count: number): void {
+    const now = new Date();
+    for (const target of targets) {
+        const schedule = Schedule.forTarget(target, schedules);
+        console.log(`${target.id}: ${schedule.description}`);
+        for (const time of schedule.upcoming(now, count)) {
+            console.log(`\t${schedule.formatTime(time)}`);
+        }
+    }
+}
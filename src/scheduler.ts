@@ -0,0 +1,87 @@
+/*
+Copyright 2022 New Vector Ltd
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+/**
+ * Runs jobs concurrently, limited by the resource groups each one uses: a job only starts once
+ * every one of its groups has fewer jobs running than its limit. Groups without a limit get 1.
+ */
+export default class Scheduler {
+    private readonly running = new Map<string, number>();
+
+    constructor(private readonly limits: Record<string, number> = {}) {}
+
+    private limit(group: string): number {
+        return Math.max(1, this.limits[group] ?? 1);
+    }
+
+    private isAvailable(groups: string[]): boolean {
+        return groups.every(group => (this.running.get(group) ?? 0) < this.limit(group));
+    }
+
+    private adjust(groups: string[], delta: number): void {
+        for (const group of groups) {
+            this.running.set(group, (this.running.get(group) ?? 0) + delta);
+        }
+    }
+
+    /**
+     * Runs job for each item, in order as far as the resource groups allow. Once a job fails (returns
+     * false) or shouldStop returns true, no more are started, but those already running are waited for.
+     * Returns whether every job ran and succeeded.
+     */
+    public async runAll<T>(
+        items: T[],
+        groupsOf: (item: T) => string[],
+        job: (item: T) => Promise<boolean>,
+        shouldStop: () => boolean = () => false,
+    ): Promise<boolean> {
+        const pending = [...items];
+        const inFlight = new Set<Promise<void>>();
+        let ok = true;
+
+        for (;;) {
+            if (!ok || shouldStop()) {
+                ok = false;
+                pending.length = 0;
+            }
+
+            for (let i = 0; i < pending.length;) {
+                const groups = groupsOf(pending[i]);
+                if (!this.isAvailable(groups)) {
+                    i++;
+                    continue;
+                }
+
+                const [item] = pending.splice(i, 1);
+                this.adjust(groups, 1);
+                const done: Promise<void> = job(item).then(success => {
+                    if (!success) ok = false;
+                }, () => {
+                    ok = false;
+                }).finally(() => {
+                    this.adjust(groups, -1);
+                    inFlight.delete(done);
+                });
+                inFlight.add(done);
+            }
+
+            if (inFlight.size === 0) break;
+            await Promise.race(inFlight);
+        }
+
+        return ok;
+    }
+}
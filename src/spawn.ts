@@ -16,36 +16,127 @@ limitations under the License.
 
 import * as childProcess from 'child_process';
 
-import { LoggableError } from './logger';
+import { AbortedError, LoggableError, Logger, TimeoutError } from './logger';
+import { isDryRun, recordStep } from "./dry_run";
+import { redact } from "./redact";
+
+// How long a command gets to exit after SIGTERM before we SIGKILL it
+export const KILL_GRACE_PERIOD = 10 * 1000;
+
+export interface IRunOptions {
+    // Milliseconds after which the command, and everything it started, gets killed
+    timeout?: number;
+    signal?: AbortSignal;
+    // Sent all the output of the command, for the build log
+    logger?: Logger;
+    // Called with the output of the command as it arrives
+    onOutput?: (text: string) => void;
+    // Written to the command's stdin, which is then closed. Without it, the command shares our stdin.
+    input?: string;
+}
 
 export async function spawn(
     command: string,
     args: ReadonlyArray<string>,
-    options: childProcess.SpawnOptions = {},
+    options: childProcess.SpawnOptions & IRunOptions = {},
     captureLog = true,
 ): Promise<void> {
+    if (isDryRun()) {
+        recordStep([command, ...args].join(" ") + (options.cwd ? ` (in ${options.cwd})` : ""));
+        return;
+    }
+
+    const { timeout, signal, logger, onOutput, input, ...spawnOptions } = options;
+    const killable = timeout !== undefined || signal !== undefined;
+    const pipeOutput = captureLog || logger !== undefined || onOutput !== undefined;
+
     return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new AbortedError(`# Not running command "${command} ${args.join(" ")}": aborted\n`));
+            return;
+        }
+
         const proc = childProcess.spawn(command, args, {
-            ...options,
-            stdio: captureLog ? ["inherit", "pipe", "pipe"] : "inherit",
+            ...spawnOptions,
+            // Put the command in its own process group so we can kill everything it spawned
+            // (eg. the compilers under yarn under the docker wrapper), not just the command itself.
+            detached: killable,
+            stdio: [
+                input !== undefined ? "pipe" : "inherit",
+                pipeOutput ? "pipe" : "inherit",
+                pipeOutput ? "pipe" : "inherit",
+            ],
         });
 
-        let log = `# Running command "${command} ${args.join(" ")}"\n`;
-        console.log(log);
+        if (input !== undefined) {
+            // if the command exits without reading it all, that's its business: the exit code will tell us
+            proc.stdin?.on('error', () => {});
+            proc.stdin?.end(input);
+        }
 
-        if (captureLog) {
-            proc.stdout?.pipe(process.stdout);
-            proc.stderr?.pipe(process.stderr);
+        let killedFor: "timeout" | "abort" | undefined;
+        let killTimer: NodeJS.Timeout | undefined;
+        const kill = (reason: "timeout" | "abort") => {
+            if (killedFor) return;
+            killedFor = reason;
+            killGroup(proc, "SIGTERM");
+            killTimer = setTimeout(() => killGroup(proc, "SIGKILL"), KILL_GRACE_PERIOD);
+        };
+        const timeoutTimer = timeout !== undefined ? setTimeout(() => kill("timeout"), timeout) : undefined;
+        const onAbort = () => kill("abort");
+        signal?.addEventListener("abort", onAbort);
 
-            proc.stdout?.on('data', (chunk) => {
-                log += chunk.toString();
-            });
-            proc.stderr?.on('data', (chunk) => {
-                log += chunk.toString();
+        let log = `# Running command "${command} ${args.join(" ")}"\n`;
+        console.log(redact(log));
+
+        // Output is only passed on a whole line at a time, so that a secret split across chunks is still redacted
+        const flushers: Array<() => void> = [];
+        const follow = (stream: NodeJS.ReadableStream | null, out: NodeJS.WriteStream) => {
+            if (!stream) return;
+            let partialLine = "";
+            const emit = (raw: string) => {
+                const text = redact(raw);
+                out.write(text);
+                if (captureLog) log += text;
+                logger?.output(text);
+                onOutput?.(text);
+            };
+            const flush = () => {
+                if (partialLine) emit(partialLine);
+                partialLine = "";
+            };
+            stream.setEncoding('utf8');
+            stream.on('data', (chunk: string) => {
+                const text = partialLine + chunk;
+                const end = text.lastIndexOf("\n") + 1;
+                partialLine = text.slice(end);
+                if (end) emit(text.slice(0, end));
             });
+            stream.on('end', flush);
+            flushers.push(flush);
+        };
+        if (pipeOutput) {
+            follow(proc.stdout, process.stdout);
+            follow(proc.stderr, process.stderr);
         }
 
         proc.on('exit', (code?: number) => {
+            // The output may not have ended yet, but what there is of it belongs in the log
+            flushers.forEach(flush => flush());
+            if (timeoutTimer) clearTimeout(timeoutTimer);
+            if (killTimer) clearTimeout(killTimer);
+            signal?.removeEventListener("abort", onAbort);
+
+            if (killedFor === "timeout") {
+                log += `\nTimed out after ${timeout! / 1000}s: killed`;
+                reject(new TimeoutError(timeout!, log));
+                return;
+            } else if (killedFor === "abort") {
+                log += "\nAborted: killed";
+                reject(new AbortedError(log));
+                return;
+            }
+
             if (!code) {
                 resolve();
                 return;
@@ -56,3 +147,12 @@ export async function spawn(
         });
     });
 }
+
+function killGroup(proc: childProcess.ChildProcess, sig: NodeJS.Signals): void {
+    try {
+        // a negative pid signals the whole process group
+        process.kill(-proc.pid!, sig);
+    } catch (e) {
+        // most likely it's already gone
+    }
+}
@@ -0,0 +1,159 @@
+/*
+Copyright 2022 New Vector Ltd
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import * as path from 'path';
+
+import { IRunner, IRunOptions } from './runner';
+import { AbortedError, Logger, TimeoutError } from "./logger";
+import { KILL_GRACE_PERIOD, spawn } from "./spawn";
+
+export interface IRemoteHost {
+    host: string;
+    user?: string;
+    port?: number;
+    identityFile?: string;
+    // Where the builds go on the remote host, relative to the user's home dir unless absolute
+    dir?: string;
+}
+
+// The process group of the command running on the remote end, so it can be killed along with
+// everything it started
+const PGID_FILE = ".element-builder-pgid";
+
+function shellQuote(arg: string): string {
+    return "'" + arg.replace(/'/g, "'\\''") + "'";
+}
+
+export function describeRemote(remote: IRemoteHost): string {
+    return (remote.user ? `${remote.user}@` : "") + remote.host + (remote.port ? `:${remote.port}` : "");
+}
+
+/**
+ * The args to pass to ssh to reach the given host, minus the command.
+ */
+export function sshArgs(remote: IRemoteHost): string[] {
+    const args = ["-o", "BatchMode=yes"];
+    if (remote.port) args.push("-p", remote.port.toString());
+    if (remote.identityFile) args.push("-i", remote.identityFile);
+    if (remote.user) args.push("-l", remote.user);
+    args.push(remote.host);
+    return args;
+}
+
+/**
+ * Runs commands on another host over SSH. The checked out repo is copied across with rsync by setup()
+ * and the contents of dist/ copied back by finish(), so the rest of the build doesn't need to know
+ * the commands ran anywhere else.
+ */
+export default class SshRunner implements IRunner {
+    private readonly remoteDir: string;
+
+    constructor(
+        private readonly cwd: string,
+        private readonly remote: IRemoteHost,
+        private readonly logger: Logger,
+        private readonly env: NodeJS.ProcessEnv = {},
+        // Whether the build is being resumed, so some of its steps have already run on the remote end
+        private readonly resuming = false,
+    ) {
+        this.remoteDir = path.posix.join(remote.dir ?? "element-builder", path.basename(path.resolve(cwd)));
+    }
+
+    private get rsyncShell(): string {
+        // rsync appends the host itself
+        // & rsync splits this on whitespace, minding quotes, to get the args back
+        return ["ssh", ...sshArgs(this.remote).slice(0, -1)].map(shellQuote).join(" ");
+    }
+
+    private get rsyncDest(): string {
+        return `${this.remote.host}:${this.remoteDir}/`;
+    }
+
+    private ssh(command: string, options: IRunOptions = {}, captureLog = true): Promise<void> {
+        return spawn("ssh", [...sshArgs(this.remote), command], {
+            logger: this.logger,
+            ...options,
+        }, captureLog);
+    }
+
+    public async setup(): Promise<void> {
+        this.logger.info(`Syncing ${this.cwd} to ${describeRemote(this.remote)}:${this.remoteDir}`);
+
+        await this.ssh(`mkdir -p ${shellQuote(this.remoteDir)}`);
+        // A resumed build carries on with whatever its completed steps made on the remote end, so nothing
+        // there is deleted. Otherwise anything left from an earlier attempt goes, bar the dependencies.
+        await spawn("rsync", [
+            "-a", ...(this.resuming ? [] : ["--delete"]), "--exclude", "/node_modules", "--exclude", "/.hak",
+            "-e", this.rsyncShell,
+            this.cwd + "/",
+            this.rsyncDest,
+        ], {
+            logger: this.logger,
+        });
+    }
+
+    public async run(cmd: string, args: string[] = [], options: IRunOptions = {}): Promise<void> {
+        this.logger.info(`[${this.remote.host}] ` + [cmd, ...args].join(' '));
+
+        // The build env goes over stdin so it never appears on a command line or on disk at either end
+        const envLines = Object.entries(this.env)
+            .filter(([, v]) => v !== undefined)
+            .map(([k, v]) => `export ${k}=${shellQuote(v!)}\n`);
+        const command = [
+            `cd ${shellQuote(this.remoteDir)}`,
+            `eval "$(cat)"`,
+            // sshd starts the shell in a session of its own, so it leads its own process group, and
+            // the command does after the exec. Whichever it is, everything the command starts is in it.
+            `ps -o pgid= -p $$ | tr -d ' ' > ${PGID_FILE}`,
+            `exec ${[cmd, ...args].map(shellQuote).join(" ")} < /dev/null`,
+        ].join(" && ");
+
+        try {
+            await this.ssh(command, { ...options, input: envLines.join("") });
+        } catch (e) {
+            if (e instanceof TimeoutError || e instanceof AbortedError) {
+                // Killing ssh doesn't stop the command on the other end, so do that too: as spawn() does
+                // here, the whole process group, and SIGKILL if it's still going after the grace period
+                const pgidFile = shellQuote(path.posix.join(this.remoteDir, PGID_FILE));
+                const graceSeconds = KILL_GRACE_PERIOD / 1000;
+                try {
+                    await this.ssh([
+                        `pgid=$(cat ${pgidFile})`,
+                        `kill -TERM -$pgid`,
+                        `i=0`,
+                        `while [ $i -lt ${graceSeconds} ] && kill -0 -$pgid 2>/dev/null; do sleep 1; i=$((i+1)); done`,
+                        `kill -KILL -$pgid 2>/dev/null; true`,
+                    ].join("; "), {}, false);
+                } catch (killErr) {
+                    // probably already gone
+                }
+            }
+            throw e;
+        }
+    }
+
+    public async finish(): Promise<void> {
+        this.logger.info(`Fetching dist from ${describeRemote(this.remote)}`);
+        await spawn("rsync", [
+            "-a", "--delete",
+            "-e", this.rsyncShell,
+            this.rsyncDest + "dist/",
+            path.join(this.cwd, "dist") + "/",
+        ], {
+            logger: this.logger,
+        });
+    }
+}
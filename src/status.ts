@@ -0,0 +1,127 @@
+/*
+Copyright 2022 New Vector Ltd
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { Target, TargetId } from 'element-desktop/scripts/hak/target';
+
+import { readLastBuild } from "./build_history";
+import Schedule, { IScheduleConfig } from "./schedule";
+import { DEFAULT_FAILURE_POLICY, getNextDue, IFailurePolicy } from "./failure_policy";
+import Lock, { describeLock, ILockInfo, isStale, LockScope } from "./lock";
+
+interface ILockStatus extends ILockInfo {
+    stale: boolean;
+}
+
+interface ITargetStatus {
+    target: TargetId;
+    lastSuccess: {
+        version?: string;
+        desktopSha?: string;
+        time: string;
+    } | null;
+    lastFailure: string | null;
+    failuresToday: number;
+    failedDays: number;
+    schedule: string;
+    nextDue: string | null;
+    locked: boolean;
+}
+
+export interface IStatus {
+    targets: ITargetStatus[];
+    locks: Partial<Record<LockScope, ILockStatus>>;
+}
+
+function readLock(scope: LockScope): ILockStatus | undefined {
+    const info = Lock.read(scope);
+    return info ? { ...info, stale: isStale(info) } : undefined;
+}
+
+/**
+ * Collects the nightly builder's state for each target from the files it leaves behind,
+ * so this works whether or not a builder is currently running.
+ */
+export async function getStatus(
+    targets: Target[],
+    schedules?: IScheduleConfig[],
+    failurePolicy?: Partial<IFailurePolicy>,
+): Promise<IStatus> {
+    const locks: IStatus["locks"] = {};
+    const buildLock = readLock("build");
+    const publishLock = readLock("publish");
+    if (buildLock) locks.build = buildLock;
+    if (publishLock) locks.publish = publishLock;
+
+    const ret: ITargetStatus[] = [];
+    for (const target of targets) {
+        const build = await readLastBuild(target);
+        const time = build?.time ?? 0;
+        const failTime = build?.failTime ?? 0;
+        const failing = failTime > time;
+        const schedule = Schedule.forTarget(target, schedules);
+        const nextDue = getNextDue(
+            build ?? { time: 0, number: 0 },
+            schedule,
+            { ...DEFAULT_FAILURE_POLICY, ...failurePolicy },
+        );
+
+        ret.push({
+            target: target.id,
+            lastSuccess: time ? {
+                version: build!.version,
+                desktopSha: build!.desktopSha,
+                time: new Date(time).toISOString(),
+            } : null,
+            lastFailure: failTime ? new Date(failTime).toISOString() : null,
+            failuresToday: failing ? build!.failuresToday ?? 1 : 0,
+            failedDays: failing ? build!.failedDays ?? 1 : 0,
+            schedule: schedule.description,
+            nextDue: nextDue?.toISOString() ?? null,
+            locked: buildLock !== undefined && !buildLock.stale,
+        });
+    }
+
+    return { targets: ret, locks };
+}
+
+export function printStatus(status: IStatus): void {
+    for (const scope of ["build", "publish"] as LockScope[]) {
+        const lock = status.locks[scope];
+        if (lock) {
+            console.log(`${scope} lock: held by the ${describeLock(lock)}${lock.stale ? " (stale)" : ""}`);
+        } else {
+            console.log(`${scope} lock: not held`);
+        }
+    }
+
+    for (const t of status.targets) {
+        console.log("");
+        console.log(t.target);
+        if (t.lastSuccess) {
+            const sha = t.lastSuccess.desktopSha ? ` (${t.lastSuccess.desktopSha.slice(0, 8)})` : "";
+            console.log(`\tLast success: ${t.lastSuccess.version ?? "unknown version"}${sha} at ${t.lastSuccess.time}`);
+        } else {
+            console.log("\tLast success: never");
+        }
+        console.log(`\tLast failure: ${t.lastFailure ?? "never"}`);
+        if (t.failedDays) {
+            console.log(`\tFailing:      ${t.failuresToday} time(s) on the last day, ${t.failedDays} day(s) running`);
+        }
+        console.log(`\tSchedule:     ${t.schedule}`);
+        console.log(`\tNext due:     ${t.nextDue ?? "never"}`);
+        console.log(`\tLocked:       ${t.locked ? "yes" : "no"}`);
+    }
+}
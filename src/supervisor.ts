@@ -0,0 +1,60 @@
+/*
+Copyright 2022 New Vector Ltd
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { execFile } from "child_process";
+
+/*
+ * Minimal sd_notify support for running under systemd (Type=notify). Node has no API for
+ * datagrams on unix sockets so we shell out to systemd-notify, which means the unit needs
+ * NotifyAccess=all. Outside of systemd (no NOTIFY_SOCKET) all of this is a no-op.
+ */
+
+let watchdogTimer: NodeJS.Timeout | undefined;
+
+function notify(...states: string[]): Promise<void> {
+    if (!process.env.NOTIFY_SOCKET) return Promise.resolve();
+
+    return new Promise(resolve => {
+        execFile('systemd-notify', states, (err) => {
+            if (err) console.warn("Failed to notify supervisor", err);
+            // a failure to notify shouldn't take the builder down with it
+            resolve();
+        });
+    });
+}
+
+export function notifyReady(): Promise<void> {
+    startWatchdog();
+    return notify("READY=1", `MAINPID=${process.pid}`);
+}
+
+export function notifyStopping(): Promise<void> {
+    if (watchdogTimer) clearInterval(watchdogTimer);
+    watchdogTimer = undefined;
+    return notify("STOPPING=1");
+}
+
+// Ping the watchdog at half the interval systemd asked for, as recommended by sd_watchdog_enabled(3)
+function startWatchdog(): void {
+    const usec = parseInt(process.env.WATCHDOG_USEC ?? "", 10);
+    if (!usec || watchdogTimer) return;
+
+    watchdogTimer = setInterval(() => {
+        notify("WATCHDOG=1", `MAINPID=${process.pid}`);
+    }, usec / 1000 / 2);
+    // The pings only matter while there's something else going on: one-off builds still exit when done
+    watchdogTimer.unref();
+}
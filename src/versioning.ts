@@ -0,0 +1,199 @@
+/*
+Copyright 2022 New Vector Ltd
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+/*
+ * Nightly version numbers: the date of the build and a counter in case there's more than one that
+ * day, eg. 2022101902. They have to keep going up, or the updaters won't install them, and they
+ * have to survive being turned into a version by each of the platforms we build for.
+ */
+
+// YYYYMMDDNN, as they always have been
+export const DEFAULT_VERSION_FORMAT = "{YYYY}{MM}{DD}{NN}";
+
+// Squirrel.Windows parses each part of the version into a 32 bit integer
+const MAX_SQUIRREL_PART = 2 ** 31 - 1;
+
+export class VersionError extends Error {}
+
+type Field = "year" | "month" | "day" | "counter";
+
+interface IToken {
+    field: Field;
+    width: number;
+}
+
+const TOKENS: Record<string, IToken> = {
+    "YYYY": { field: "year", width: 4 },
+    "YY": { field: "year", width: 2 },
+    "MM": { field: "month", width: 2 },
+    "DD": { field: "day", width: 2 },
+};
+
+export interface INightlyVersion {
+    version: string;
+    // the counter: 1 for the first build of the day
+    number: number;
+}
+
+/**
+ * Compares two versions made of numbers separated by dots, returning <0, 0 or >0 like a sort function.
+ */
+export function compareVersions(a: string, b: string): number {
+    const aParts = a.split(".").map(Number);
+    const bParts = b.split(".").map(Number);
+    for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+        const diff = (aParts[i] ?? 0) - (bParts[i] ?? 0);
+        if (diff !== 0) return diff;
+    }
+    return 0;
+}
+
+/**
+ * What's wrong with the version for each platform's packaging, if anything.
+ */
+export function checkVersion(version: string): string[] {
+    const problems: string[] = [];
+
+    // Windows builds are versioned 0.0.1-nightly.<version>, which has to be valid semver
+    for (const part of version.split(".")) {
+        if (!/^(0|[1-9]\d*)$/.test(part)) {
+            problems.push(`Squirrel.Windows: '${part}' in ${version} isn't a number without leading zeros`);
+        } else if (Number(part) > MAX_SQUIRREL_PART) {
+            problems.push(`Squirrel.Windows: '${part}' in ${version} is too big for a 32 bit integer`);
+        }
+    }
+    // An upstream version for dpkg: we don't use letters, which dpkg would compare differently
+    if (!/^\d[\d.]*$/.test(version) || version.endsWith(".")) {
+        problems.push(`Debian: ${version} should be digits separated by dots`);
+    }
+    if (!/^\d+(\.\d+){0,2}$/.test(version)) {
+        problems.push(`macOS: ${version} should be one to three numbers separated by dots for CFBundleVersion`);
+    }
+
+    return problems;
+}
+
+/**
+ * The version of a build recorded before the version was, from its time & counter: these were always
+ * YYYYMMDDNN, with the date in local time. Undefined if there's never been a build.
+ */
+export function getLegacyVersion(time: number, number: number): string | undefined {
+    if (!time) return undefined;
+    const date = new Date(time);
+    return date.getFullYear().toString() +
+        (date.getMonth() + 1).toString().padStart(2, "0") +
+        date.getDate().toString().padStart(2, "0") +
+        number.toString().padStart(2, "0");
+}
+
+/**
+ * Renders nightly versions in a format made of {YYYY} or {YY}, {MM}, {DD} and a counter {N...} with as
+ * many Ns as digits, in that order, between literal dots & digits.
+ */
+export default class NightlyVersioning {
+    private readonly parts: Array<string | IToken> = [];
+    private readonly pattern: RegExp;
+    private readonly maxCounter: number;
+
+    constructor(public readonly format = DEFAULT_VERSION_FORMAT) {
+        let pattern = "";
+        for (const part of format.split(/(\{[A-Z]+\})/).filter(p => p)) {
+            const name = /^\{([A-Z]+)\}$/.exec(part)?.[1];
+            if (name === undefined) {
+                if (!/^[\d.]+$/.test(part)) {
+                    throw new VersionError(`'${part}' in version format ${format} isn't a token, dot or digit`);
+                }
+                this.parts.push(part);
+                pattern += part.replace(/\./g, "\\.");
+                continue;
+            }
+
+            const token = /^N+$/.test(name) ? { field: "counter" as Field, width: name.length } : TOKENS[name];
+            if (!token) throw new VersionError(`Unknown token {${name}} in version format ${format}`);
+            this.parts.push(token);
+            pattern += `(\\d{${token.width}})`;
+        }
+        this.pattern = new RegExp(`^${pattern}$`);
+
+        // Newer builds only get bigger version numbers if the biggest fields come first
+        const fields = this.parts.filter((p): p is IToken => typeof p !== "string").map(t => t.field);
+        if (fields.join() !== "year,month,day,counter") {
+            throw new VersionError(`Version format ${format} must have a year, month, day & counter, in that order`);
+        }
+        const counter = this.parts.find((p): p is IToken => typeof p !== "string" && p.field === "counter")!;
+        this.maxCounter = 10 ** counter.width - 1;
+
+        // Check the extremes from now on, which is where leading zeros & overflows would be
+        for (const version of [
+            this.render(new Date(new Date().getFullYear(), 0, 1), 1),
+            this.render(new Date(2099, 11, 31), this.maxCounter),
+        ]) {
+            const problems = checkVersion(version);
+            if (problems.length) {
+                throw new VersionError(`Version format ${format} gives versions like ${version}:\n\t` +
+                    problems.join("\n\t"));
+            }
+        }
+    }
+
+    private render(date: Date, counter: number): string {
+        const fields = { year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate(), counter };
+        return this.parts.map(part => {
+            if (typeof part === "string") return part;
+            // The last digits, for a 2 digit year
+            return fields[part.field].toString().padStart(part.width, "0").slice(-part.width);
+        }).join("");
+    }
+
+    /**
+     * The date & counter of a version in this format, or undefined if it isn't one, eg. because
+     * the format has been changed since.
+     */
+    public parse(version: string): Record<Field, number> | undefined {
+        const match = this.pattern.exec(version);
+        if (!match) return undefined;
+        const tokens = this.parts.filter((p): p is IToken => typeof p !== "string");
+        return Object.fromEntries(tokens.map((token, i) => [token.field, parseInt(match[i + 1])])) as
+            Record<Field, number>;
+    }
+
+    /**
+     * The version of a build made now, given the version of the last one. The counter carries on from
+     * the last version if it was made the same day, and the result is always bigger than the last
+     * one, even if the clock or the format has changed since, or this throws.
+     */
+    public next(lastVersion: string | undefined, now = new Date()): INightlyVersion {
+        const last = lastVersion ? this.parse(lastVersion) : undefined;
+        // As rendered, so that a 2 digit year compares with a 2 digit year
+        const today = this.parse(this.render(now, 1))!;
+        let number = 1;
+        if (last && last.year === today.year && last.month === today.month && last.day === today.day) {
+            number = last.counter + 1;
+        }
+        // If the clock has gone back, or the format has changed, count on until it's newer
+        const isNewer = (n: number) => !lastVersion || compareVersions(this.render(now, n), lastVersion) > 0;
+        while (number <= this.maxCounter && !isNewer(number)) {
+            number++;
+        }
+        if (number > this.maxCounter) {
+            throw new VersionError(
+                `There's no version newer than the last, ${lastVersion}, left for today: ` +
+                `the counter of ${this.format} only goes up to ${this.maxCounter}`,
+            );
+        }
+        return { version: this.render(now, number), number };
+    }
+}
@@ -20,7 +20,8 @@ import * as childProcess from 'child_process';
 import { WindowsTarget } from 'element-desktop/scripts/hak/target';
 
 import { Logger } from "./logger";
-import { spawn } from "./spawn";
+import { IRunOptions, spawn } from "./spawn";
+import { isDryRun, recordStep } from "./dry_run";
 
 const STARTVM_TIMEOUT = 90 * 1000;
 const POWEROFF_TIMEOUT = 30 * 1000;
@@ -146,6 +147,8 @@ export default class WindowsBuilder {
     }
 
     public async isRunning(): Promise<boolean> {
+        if (isDryRun()) return false;
+
         // run() doesn't care about the output from VBoxManage but we do
         const runningList = await new Promise<string>((resolve, reject) => {
             childProcess.execFile('VBoxManage', ['list', 'runningvms'], (err, output) => {
@@ -164,7 +167,7 @@ export default class WindowsBuilder {
         this.script += 'if %errorlevel% neq 0 exit /b %errorlevel%\r\n';
     }
 
-    public async runScript(): Promise<void> {
+    public async runScript(options: IRunOptions = {}): Promise<void> {
         const tmpCmdFile = path.join(this.cwd, 'tmp.cmd');
         const vcvarsArch = this.target.vcVarsArch;
         const fileContents = (
@@ -174,6 +177,11 @@ export default class WindowsBuilder {
             this.script
         );
 
+        if (isDryRun()) {
+            recordStep(`Write ${tmpCmdFile}`, fileContents);
+            return this.run('z:\\tmp.cmd', options);
+        }
+
         await fsProm.writeFile(tmpCmdFile, fileContents);
 
         const startTime = Date.now();
@@ -185,15 +193,16 @@ export default class WindowsBuilder {
         }, 60 * 1000);
 
         try {
-            return await this.run('z:\\tmp.cmd');
+            return await this.run('z:\\tmp.cmd', options);
         } finally {
             clearInterval(timer);
             await fsProm.unlink(tmpCmdFile);
         }
     }
 
-    private async run(runStr: string): Promise<void> {
+    private async run(runStr: string, options: IRunOptions = {}): Promise<void> {
         console.log("running " + runStr);
+        this.logger.output("running " + runStr + "\n");
 
         const guestCtlArgs = [
             this.vmName,
@@ -218,11 +227,15 @@ export default class WindowsBuilder {
             runStr,
         ]);
 
-        return this.vboxManage('guestcontrol', ...guestCtlArgs);
+        return this.vboxManageWithOptions(options, 'guestcontrol', ...guestCtlArgs);
     }
 
     private async vboxManage(cmd: string, ...args: string[]): Promise<void> {
-        return spawn('VBoxManage', [cmd].concat(args), {}, false);
+        return this.vboxManageWithOptions({}, cmd, ...args);
+    }
+
+    private async vboxManageWithOptions(options: IRunOptions, cmd: string, ...args: string[]): Promise<void> {
+        return spawn('VBoxManage', [cmd].concat(args), { logger: this.logger, ...options }, false);
     }
 
     public static async setDonglePower(on: boolean): Promise<void> {
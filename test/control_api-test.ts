@@ -0,0 +1,152 @@
+/*
+Copyright 2022 New Vector Ltd
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as net from 'net';
+
+import ControlApi, { IControllable, isLoopback, verifyWebhookSignature } from "../src/control_api";
+import { Logger } from "../src/logger";
+
+function sign(body: string, secret: string): string {
+    return "sha256=" + crypto.createHmac("sha256", secret).update(body).digest("hex");
+}
+
+describe("verifyWebhookSignature", () => {
+    const body = JSON.stringify({ ref: "refs/heads/develop" });
+
+    it("accepts the HMAC of the body with the secret", () => {
+        expect(verifyWebhookSignature(Buffer.from(body), sign(body, "s3cret"), "s3cret")).toBe(true);
+    });
+
+    it("refuses a missing signature", () => {
+        expect(verifyWebhookSignature(Buffer.from(body), undefined, "s3cret")).toBe(false);
+        expect(verifyWebhookSignature(Buffer.from(body), "", "s3cret")).toBe(false);
+    });
+
+    it("refuses a signature made with another secret", () => {
+        expect(verifyWebhookSignature(Buffer.from(body), sign(body, "other"), "s3cret")).toBe(false);
+    });
+
+    it("refuses a signature of another body", () => {
+        expect(verifyWebhookSignature(Buffer.from(body + " "), sign(body, "s3cret"), "s3cret")).toBe(false);
+    });
+
+    it("refuses a signature in another format", () => {
+        const hex = crypto.createHmac("sha256", "s3cret").update(body).digest("hex");
+        expect(verifyWebhookSignature(Buffer.from(body), hex, "s3cret")).toBe(false);
+        expect(verifyWebhookSignature(Buffer.from(body), "sha1=" + hex, "s3cret")).toBe(false);
+    });
+});
+
+describe("isLoopback", () => {
+    it("is true for the default & loopback addresses", () => {
+        expect(isLoopback()).toBe(true);
+        expect(isLoopback("localhost")).toBe(true);
+        expect(isLoopback("127.0.0.1")).toBe(true);
+        expect(isLoopback("127.1.2.3")).toBe(true);
+        expect(isLoopback("::1")).toBe(true);
+    });
+
+    it("is false for anything else", () => {
+        expect(isLoopback("0.0.0.0")).toBe(false);
+        expect(isLoopback("::")).toBe(false);
+        expect(isLoopback("192.168.1.10")).toBe(false);
+        expect(isLoopback("builder.example.org")).toBe(false);
+        expect(isLoopback("127.0.0.1.example.org")).toBe(false);
+    });
+});
+
+describe("ControlApi", () => {
+    const builder: IControllable = {
+        requestBuild: jest.fn(() => []),
+        cancelBuild: jest.fn(async () => false),
+        getQueue: jest.fn(() => ({ building: [], queued: [] })),
+        getStatus: jest.fn(),
+        getHistory: jest.fn(async () => []),
+    };
+    let port: number;
+    let api: ControlApi;
+
+    beforeEach(async () => {
+        jest.clearAllMocks();
+        // A free port to listen on
+        port = await new Promise<number>(resolve => {
+            const server = net.createServer().listen(0, "127.0.0.1", () => {
+                const address = server.address() as net.AddressInfo;
+                server.close(() => resolve(address.port));
+            });
+        });
+        jest.spyOn(console, "info").mockImplementation(() => {});
+        jest.spyOn(console, "warn").mockImplementation(() => {});
+        api = new ControlApi({ port, token: "t0ken", webhookSecret: "s3cret" }, builder, "develop", new Logger());
+        await api.start();
+    });
+
+    afterEach(async () => {
+        await api.stop();
+        jest.restoreAllMocks();
+    });
+
+    function request(
+        method: string,
+        path: string,
+        headers: http.OutgoingHttpHeaders = {},
+        body = "",
+    ): Promise<{ status: number, body: unknown }> {
+        return new Promise((resolve, reject) => {
+            const req = http.request({ host: "127.0.0.1", port, method, path, headers }, res => {
+                let data = "";
+                res.on("data", chunk => data += chunk);
+                res.on("end", () => resolve({ status: res.statusCode!, body: JSON.parse(data) }));
+            });
+            req.on("error", reject);
+            req.end(body);
+        });
+    }
+
+    it("refuses requests without the token", async () => {
+        expect((await request("GET", "/queue")).status).toEqual(401);
+        expect((await request("GET", "/queue", { Authorization: "Bearer wrong" })).status).toEqual(401);
+        expect((await request("GET", "/queue", { Authorization: "t0ken" })).status).toEqual(401);
+        expect(builder.getQueue).not.toHaveBeenCalled();
+    });
+
+    it("answers requests with the token", async () => {
+        const res = await request("GET", "/queue", { Authorization: "Bearer t0ken" });
+        expect(res).toEqual({ status: 200, body: { building: [], queued: [] } });
+    });
+
+    it("takes webhooks signed with the secret rather than the token", async () => {
+        const body = JSON.stringify({ ref: "refs/heads/develop", after: "0123456789abcdef" });
+        const res = await request("POST", "/webhook/github", {
+            "X-GitHub-Event": "push",
+            "X-Hub-Signature-256": sign(body, "s3cret"),
+        }, body);
+        expect(res.status).toEqual(200);
+        expect(builder.requestBuild).toHaveBeenCalledWith(undefined, "a push to develop (01234567)");
+    });
+
+    it("refuses webhooks that aren't signed with the secret", async () => {
+        const body = JSON.stringify({ ref: "refs/heads/develop" });
+        const res = await request("POST", "/webhook/github", {
+            "X-GitHub-Event": "push",
+            "X-Hub-Signature-256": sign(body, "t0ken"),
+            "Authorization": "Bearer t0ken",
+        }, body);
+        expect(res.status).toEqual(401);
+    });
+});
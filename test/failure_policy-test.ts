@@ -0,0 +1,110 @@
+/*
+Copyright 2022 New Vector Ltd
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { IBuild } from "../src/build_history";
+import { DEFAULT_FAILURE_POLICY, getNextDue, recordFailure, recordSuccess } from "../src/failure_policy";
+import Schedule from "../src/schedule";
+
+// Local time, like the builder: the days failures are counted in are the host's
+function at(date: number, hours: number, minutes = 0): number {
+    return new Date(2022, 9, date, hours, minutes).getTime();
+}
+
+const MINUTE_MS = 60 * 1000;
+
+describe("recordFailure", () => {
+    const policy = { ...DEFAULT_FAILURE_POLICY, escalateAfterDays: 3 };
+    let build: IBuild;
+
+    beforeEach(() => {
+        build = { time: at(18, 8), number: 1 };
+    });
+
+    it("counts the first failure since a success", () => {
+        expect(recordFailure(build, policy, at(19, 8))).toBe(false);
+        expect(build).toMatchObject({ failTime: at(19, 8), failuresToday: 1, failedDays: 1 });
+    });
+
+    it("counts further failures the same day", () => {
+        recordFailure(build, policy, at(19, 8));
+        recordFailure(build, policy, at(19, 9));
+        expect(build).toMatchObject({ failTime: at(19, 9), failuresToday: 2, failedDays: 1 });
+    });
+
+    it("counts the days in a row it's failed on", () => {
+        recordFailure(build, policy, at(19, 8));
+        recordFailure(build, policy, at(19, 9));
+        recordFailure(build, policy, at(20, 8));
+        expect(build).toMatchObject({ failuresToday: 1, failedDays: 2 });
+    });
+
+    it("escalates once, on the first failure of the day it reaches escalateAfterDays", () => {
+        expect(recordFailure(build, policy, at(19, 8))).toBe(false);
+        expect(recordFailure(build, policy, at(20, 8))).toBe(false);
+        expect(recordFailure(build, policy, at(21, 8))).toBe(true);
+        expect(recordFailure(build, policy, at(21, 9))).toBe(false);
+        expect(recordFailure(build, policy, at(22, 8))).toBe(true);
+    });
+
+    it("starts counting again after a success", () => {
+        recordFailure(build, policy, at(19, 8));
+        recordFailure(build, policy, at(20, 8));
+        build.time = at(20, 12);
+        recordSuccess(build);
+        expect(recordFailure(build, policy, at(21, 8))).toBe(false);
+        expect(build).toMatchObject({ failuresToday: 1, failedDays: 1 });
+    });
+});
+
+describe("getNextDue", () => {
+    const policy = { ...DEFAULT_FAILURE_POLICY, retriesPerDay: 2, backoff: 30, coolOff: 240 };
+    const schedule = new Schedule("0 8 * * *");
+
+    it("is the next scheduled time if the last build succeeded", () => {
+        expect(getNextDue({ time: at(19, 8, 5), number: 1 }, schedule, policy)).toEqual(new Date(at(20, 8)));
+    });
+
+    it("is after the last skip, if there's been one since", () => {
+        const build = { time: at(18, 8, 5), number: 1, skipTime: at(19, 8, 1) };
+        expect(getNextDue(build, schedule, policy)).toEqual(new Date(at(20, 8)));
+    });
+
+    it("backs off, doubling, between the retries", () => {
+        const build: IBuild = { time: at(18, 8), number: 1 };
+        recordFailure(build, policy, at(19, 8));
+        expect(getNextDue(build, schedule, policy)).toEqual(new Date(at(19, 8, 30)));
+        recordFailure(build, policy, at(19, 9));
+        expect(getNextDue(build, schedule, policy)).toEqual(new Date(at(19, 10)));
+    });
+
+    it("cools off once the retries have run out", () => {
+        const build: IBuild = { time: at(18, 8), number: 1 };
+        recordFailure(build, policy, at(19, 8));
+        recordFailure(build, policy, at(19, 9));
+        recordFailure(build, policy, at(19, 11));
+        expect(getNextDue(build, schedule, policy)).toEqual(new Date(at(20, 8)));
+        recordFailure(build, policy, at(20, 6));
+        recordFailure(build, policy, at(20, 7));
+        recordFailure(build, policy, at(20, 7, 30));
+        expect(getNextDue(build, schedule, policy)).toEqual(new Date(at(20, 7, 30) + policy.coolOff * MINUTE_MS));
+    });
+
+    it("is the scheduled time if that comes before the retry", () => {
+        const build: IBuild = { time: at(18, 8), number: 1 };
+        recordFailure(build, { ...policy, backoff: 24 * 60 }, at(19, 8));
+        expect(getNextDue(build, schedule, { ...policy, backoff: 24 * 60 })).toEqual(new Date(at(20, 8)));
+    });
+});
@@ -0,0 +1,60 @@
+/*
+Copyright 2022 New Vector Ltd
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { redact, registerSecret } from "../src/redact";
+import { spawn } from "../src/spawn";
+
+describe("redact", () => {
+    registerSecret("hunter22");
+    registerSecret("hunter22-and-more");
+    registerSecret("abc");
+    registerSecret(undefined);
+
+    it("redacts every occurrence of a secret", () => {
+        expect(redact("login hunter22, again hunter22")).toEqual("login <redacted>, again <redacted>");
+    });
+
+    it("redacts a secret containing another one whole", () => {
+        expect(redact("x=hunter22-and-more")).toEqual("x=<redacted>");
+    });
+
+    it("leaves secrets too short to be sure of", () => {
+        expect(redact("abc")).toEqual("abc");
+    });
+
+    it("leaves text without secrets alone", () => {
+        expect(redact("nothing to see here")).toEqual("nothing to see here");
+    });
+});
+
+describe("spawn", () => {
+    beforeEach(() => {
+        jest.spyOn(console, "log").mockImplementation(() => {});
+        jest.spyOn(process.stdout, "write").mockImplementation(() => true);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("redacts a secret split across chunks of output", async () => {
+        let output = "";
+        await spawn("sh", ["-c", "printf 'pw hun'; sleep 0.2; printf 'ter22 ok\\nlast'"], {
+            onOutput: text => output += text,
+        });
+        expect(output).toEqual("pw <redacted> ok\nlast");
+    });
+});
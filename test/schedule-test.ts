@@ -0,0 +1,151 @@
+/*
+Copyright 2022 New Vector Ltd
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { Target } from "element-desktop/scripts/hak/target";
+
+import Schedule, { DEFAULT_CRON, ScheduleError, validateSchedules } from "../src/schedule";
+
+const utc = (text: string) => new Date(text + "Z");
+
+describe("Schedule", () => {
+    describe("constructor", () => {
+        it("needs 5 fields", () => {
+            expect(() => new Schedule("0 8 * *")).toThrow(ScheduleError);
+            expect(() => new Schedule("0 8 * * * *")).toThrow(ScheduleError);
+        });
+
+        it("rejects values out of range", () => {
+            expect(() => new Schedule("60 8 * * *")).toThrow(ScheduleError);
+            expect(() => new Schedule("0 24 * * *")).toThrow(ScheduleError);
+            expect(() => new Schedule("0 8 0 * *")).toThrow(ScheduleError);
+            expect(() => new Schedule("0 8 * 13 *")).toThrow(ScheduleError);
+            expect(() => new Schedule("0 8 * * 8")).toThrow(ScheduleError);
+        });
+
+        it("rejects bad ranges, steps & values", () => {
+            expect(() => new Schedule("0 10-8 * * *")).toThrow(ScheduleError);
+            expect(() => new Schedule("*/0 8 * * *")).toThrow(ScheduleError);
+            expect(() => new Schedule("0 1-2-3 * * *")).toThrow(ScheduleError);
+            expect(() => new Schedule("0 eight * * *")).toThrow(ScheduleError);
+        });
+
+        it("rejects unknown timezones", () => {
+            expect(() => new Schedule(DEFAULT_CRON, "Mars/Olympus_Mons")).toThrow(ScheduleError);
+        });
+    });
+
+    describe("next", () => {
+        it("fires later the same day", () => {
+            expect(new Schedule("0 8 * * *", "UTC").next(utc("2022-10-19T06:30"))).toEqual(utc("2022-10-19T08:00"));
+        });
+
+        it("fires the next day once today's time has passed", () => {
+            expect(new Schedule("0 8 * * *", "UTC").next(utc("2022-10-19T08:00"))).toEqual(utc("2022-10-20T08:00"));
+        });
+
+        it("follows steps & lists", () => {
+            const schedule = new Schedule("*/20 6,18 * * *", "UTC");
+            expect(schedule.upcoming(utc("2022-10-19T06:05"), 4)).toEqual([
+                utc("2022-10-19T06:20"),
+                utc("2022-10-19T06:40"),
+                utc("2022-10-19T18:00"),
+                utc("2022-10-19T18:20"),
+            ]);
+        });
+
+        it("understands names of days & months, and 7 for Sunday", () => {
+            // 19 October 2022 was a Wednesday
+            expect(new Schedule("0 8 * * MON-FRI", "UTC").next(utc("2022-10-21T09:00")))
+                .toEqual(utc("2022-10-24T08:00"));
+            expect(new Schedule("0 8 * * 7", "UTC").next(utc("2022-10-19T09:00"))).toEqual(utc("2022-10-23T08:00"));
+            expect(new Schedule("0 8 1 jan *", "UTC").next(utc("2022-10-19T09:00"))).toEqual(utc("2023-01-01T08:00"));
+        });
+
+        it("fires on either the day of the month or of the week if both are given", () => {
+            const schedule = new Schedule("0 8 1 * SUN", "UTC");
+            expect(schedule.upcoming(utc("2022-10-28T09:00"), 3)).toEqual([
+                utc("2022-10-30T08:00"),
+                utc("2022-11-01T08:00"),
+                utc("2022-11-06T08:00"),
+            ]);
+        });
+
+        it("rolls over into the next month & year", () => {
+            expect(new Schedule("30 23 31 * *", "UTC").next(utc("2022-10-31T23:30")))
+                .toEqual(utc("2022-12-31T23:30"));
+            expect(new Schedule("0 0 1 1 *", "UTC").next(utc("2022-12-31T23:59"))).toEqual(utc("2023-01-01T00:00"));
+        });
+
+        it("finds 29 February in the next leap year", () => {
+            expect(new Schedule("0 12 29 2 *", "UTC").next(utc("2022-10-19T00:00"))).toEqual(utc("2024-02-29T12:00"));
+        });
+
+        it("gives undefined for a schedule that never fires", () => {
+            expect(new Schedule("0 8 30 2 *", "UTC").next(utc("2022-10-19T00:00"))).toBeUndefined();
+        });
+
+        it("fires at the same wall time in its timezone across a change of the clocks", () => {
+            const schedule = new Schedule("0 8 * * *", "Europe/London");
+            // The clocks went forward at 1am on 27 March 2022, & back at 2am on 30 October
+            expect(schedule.upcoming(utc("2022-03-26T09:00"), 2)).toEqual([
+                utc("2022-03-27T07:00"),
+                utc("2022-03-28T07:00"),
+            ]);
+            expect(schedule.next(utc("2022-10-29T09:00"))).toEqual(utc("2022-10-30T08:00"));
+        });
+
+        it("fires at the wall time of the timezone it's given", () => {
+            expect(new Schedule("0 8 * * *", "America/New_York").next(utc("2022-10-19T09:00")))
+                .toEqual(utc("2022-10-19T12:00"));
+        });
+    });
+
+    describe("forTarget", () => {
+        const linux = { id: "x86_64-unknown-linux-gnu" } as Target;
+        const mac = { id: "universal-apple-darwin" } as Target;
+
+        it("uses the schedule listing the target, then the one without targets", () => {
+            const schedules = [
+                { cron: "0 6 * * *" },
+                { cron: "0 20 * * *", targets: [mac.id] },
+            ];
+            expect(Schedule.forTarget(mac, schedules).cron).toEqual("0 20 * * *");
+            expect(Schedule.forTarget(linux, schedules).cron).toEqual("0 6 * * *");
+        });
+
+        it("falls back to the default", () => {
+            expect(Schedule.forTarget(linux).cron).toEqual(DEFAULT_CRON);
+            expect(Schedule.forTarget(linux, [{ cron: "0 20 * * *", targets: [mac.id] }]).cron).toEqual(DEFAULT_CRON);
+        });
+    });
+});
+
+describe("validateSchedules", () => {
+    it("accepts good schedules", () => {
+        expect(validateSchedules([{ cron: "0 8 * * *" }, { cron: "0 9 * * 1", timezone: "UTC" }], "s")).toEqual([]);
+    });
+
+    it("says what's wrong with each bad one", () => {
+        const errors = validateSchedules([
+            { cron: "0 8 * *" },
+            { cron: "0 8 * * *" },
+            { cron: "0 8 31 2 *" },
+        ], "config.schedules");
+        expect(errors).toHaveLength(2);
+        expect(errors[0]).toMatch(/^config\.schedules\[0\]: /);
+        expect(errors[1]).toEqual("config.schedules[2]: '0 8 31 2 *' never fires");
+    });
+});
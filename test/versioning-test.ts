@@ -0,0 +1,164 @@
+/*
+Copyright 2022 New Vector Ltd
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import NightlyVersioning, { checkVersion, getLegacyVersion, VersionError } from "../src/versioning";
+
+// Local time, like the builder
+function day(year: number, month: number, date: number, hours = 8): Date {
+    return new Date(year, month - 1, date, hours);
+}
+
+describe("NightlyVersioning", () => {
+    const versioning = new NightlyVersioning();
+
+    describe("next", () => {
+        it("starts the counter at 1 for the first build", () => {
+            expect(versioning.next(undefined, day(2022, 10, 19))).toEqual({ version: "2022101901", number: 1 });
+        });
+
+        it("carries the counter on for another build the same day", () => {
+            expect(versioning.next("2022101901", day(2022, 10, 19, 20))).toEqual({ version: "2022101902", number: 2 });
+        });
+
+        it("starts the counter again on the next day", () => {
+            expect(versioning.next("2022101905", day(2022, 10, 20))).toEqual({ version: "2022102001", number: 1 });
+        });
+
+        it("starts the counter again on the same day of the next month", () => {
+            expect(versioning.next("2022020503", day(2022, 3, 5))).toEqual({ version: "2022030501", number: 1 });
+        });
+
+        it("starts the counter again on the same day of the next year", () => {
+            expect(versioning.next("2022030503", day(2023, 3, 5))).toEqual({ version: "2023030501", number: 1 });
+        });
+
+        it("rolls over into the new year", () => {
+            expect(versioning.next("2022123102", day(2023, 1, 1))).toEqual({ version: "2023010101", number: 1 });
+        });
+
+        it("throws once the counter runs out", () => {
+            expect(() => versioning.next("2022101999", day(2022, 10, 19))).toThrow(VersionError);
+        });
+
+        it("runs out at the width of the counter", () => {
+            const oneDigit = new NightlyVersioning("{YYYY}{MM}{DD}.{N}");
+            expect(oneDigit.next("20221019.8", day(2022, 10, 19))).toEqual({ version: "20221019.9", number: 9 });
+            expect(() => oneDigit.next("20221019.9", day(2022, 10, 19))).toThrow(VersionError);
+        });
+
+        it("never goes backwards if the clock does", () => {
+            expect(() => versioning.next("2022102003", day(2022, 10, 19))).toThrow(VersionError);
+        });
+
+        it("counts on from the last build if the clock goes back within the day", () => {
+            expect(versioning.next("2022101903", day(2022, 10, 19, 1))).toEqual({ version: "2022101904", number: 4 });
+        });
+
+        it("starts from the new format if it gives bigger versions than the old one", () => {
+            expect(versioning.next("22101902", day(2022, 10, 19))).toEqual({ version: "2022101901", number: 1 });
+        });
+
+        it("throws rather than go backwards if the new format gives smaller versions", () => {
+            const twoDigitYear = new NightlyVersioning("{YY}{MM}{DD}{NN}");
+            expect(() => twoDigitYear.next("2022101902", day(2022, 10, 19))).toThrow(VersionError);
+        });
+
+        it("works with a 2 digit year", () => {
+            const twoDigitYear = new NightlyVersioning("{YY}{MM}{DD}{NN}");
+            expect(twoDigitYear.next(undefined, day(2022, 10, 19))).toEqual({ version: "22101901", number: 1 });
+            expect(twoDigitYear.next("22101901", day(2022, 10, 19))).toEqual({ version: "22101902", number: 2 });
+            expect(twoDigitYear.next("22123102", day(2023, 1, 1))).toEqual({ version: "23010101", number: 1 });
+        });
+    });
+
+    describe("parse", () => {
+        it("gives the date & counter of a version", () => {
+            expect(versioning.parse("2022101902")).toEqual({ year: 2022, month: 10, day: 19, counter: 2 });
+        });
+
+        it("gives the last 2 digits of the year for a 2 digit year", () => {
+            expect(new NightlyVersioning("{YY}{MM}{DD}{NN}").parse("22101902"))
+                .toEqual({ year: 22, month: 10, day: 19, counter: 2 });
+        });
+
+        it("gives undefined for a version in another format", () => {
+            expect(versioning.parse("22101902")).toBeUndefined();
+            expect(versioning.parse("20221019.2")).toBeUndefined();
+        });
+    });
+
+    describe("constructor", () => {
+        it("rejects formats without the fields in order", () => {
+            expect(() => new NightlyVersioning("{DD}{MM}{YYYY}{NN}")).toThrow(VersionError);
+            expect(() => new NightlyVersioning("{YYYY}{MM}{DD}")).toThrow(VersionError);
+        });
+
+        it("rejects unknown tokens & characters", () => {
+            expect(() => new NightlyVersioning("{YYYY}{MM}{DD}{HH}{NN}")).toThrow(VersionError);
+            expect(() => new NightlyVersioning("{YYYY}{MM}{DD}-{NN}")).toThrow(VersionError);
+        });
+
+        it("rejects formats that give versions a platform can't use", () => {
+            // too big for Squirrel.Windows
+            expect(() => new NightlyVersioning("{YYYY}{MM}{DD}{NNN}")).toThrow(VersionError);
+            // too many parts for macOS
+            expect(() => new NightlyVersioning("{YYYY}.{MM}.{DD}.{NN}")).toThrow(VersionError);
+            // leading zeros in January
+            expect(() => new NightlyVersioning("{YYYY}.{MM}{DD}{NN}")).toThrow(VersionError);
+        });
+    });
+});
+
+describe("checkVersion", () => {
+    it("accepts the default format", () => {
+        expect(checkVersion("2022101901")).toEqual([]);
+        expect(checkVersion("20221019.1530")).toEqual([]);
+    });
+
+    it("rejects parts too big for a 32 bit integer", () => {
+        expect(checkVersion("2610191530")).toHaveLength(1);
+    });
+
+    it("rejects leading zeros", () => {
+        expect(checkVersion("20221019.0830")).toHaveLength(1);
+    });
+
+    it("rejects more than three parts", () => {
+        expect(checkVersion("2022.10.19.1")).toHaveLength(1);
+    });
+
+    it("rejects anything but digits & dots", () => {
+        expect(checkVersion("20221019a").length).toBeGreaterThan(0);
+    });
+});
+
+describe("getLegacyVersion", () => {
+    const versioning = new NightlyVersioning();
+
+    it("gives the YYYYMMDDNN version of a build recorded without one", () => {
+        expect(getLegacyVersion(day(2022, 2, 5).getTime(), 3)).toEqual("2022020503");
+    });
+
+    it("gives undefined if there's never been a build", () => {
+        expect(getLegacyVersion(0, 0)).toBeUndefined();
+    });
+
+    it("lets the next version carry on from it", () => {
+        const last = getLegacyVersion(day(2022, 2, 5).getTime(), 3);
+        expect(versioning.next(last, day(2022, 2, 5, 20))).toEqual({ version: "2022020504", number: 4 });
+        expect(versioning.next(last, day(2022, 3, 5))).toEqual({ version: "2022030501", number: 1 });
+    });
+});